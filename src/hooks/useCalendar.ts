@@ -1,5 +1,10 @@
-import { useState, useEffect } from 'react';
-import type { CalendarData, CalendarEvent, Template, ViewMode } from '../types/calendar';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import type { CalendarData, CalendarEvent, CalendarSettings, Template, TemplateGroup, ViewMode } from '../types/calendar';
+import { getDayIndex, parseDateKey } from '../utils/time';
+import { resolveSettings } from '../utils/calendarSettings';
+import { moveTemplate } from '../utils/templateGroups';
+import type { TemplateSectionKey } from '../utils/templateGroups';
+import { applyLibraryTemplate } from '../utils/templateLibrary';
 
 /**
  * Keys used for localStorage persistence. Separating these into constants
@@ -9,47 +14,85 @@ const CALENDARS_KEY = 'calendar-calendars';
 const SELECTED_CALENDAR_KEY = 'calendar-selected-calendar';
 const VIEW_MODE_KEY = 'calendar-view-mode';
 
+/** Number of undo steps kept in memory. History is not persisted. */
+const HISTORY_LIMIT = 50;
+
+/** Calendars as they were before a mutation, labelled for the undo toast. */
+interface HistoryEntry {
+  label: string;
+  calendars: CalendarData[];
+  /** Mutation batch that recorded the entry; later mutations in the same batch merge into it. */
+  batch?: object;
+  /** Calendar selected when the change was made, reselected when undoing brings it back. */
+  selectedCalendarId?: string | null;
+}
+
+/** Calendars together with their undo/redo stacks, so one state update changes both. */
+interface CalendarState {
+  calendars: CalendarData[];
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+/** Shown after a destructive change so it can be undone right away. */
+export interface UndoNotice {
+  id: number;
+  label: string;
+}
+
+/**
+ * Load calendars from localStorage. If none exist create a default calendar
+ * so that users always have one schedule to work with.
+ */
+function loadCalendars(): CalendarData[] {
+  if (typeof window === 'undefined') return [];
+  const saved = localStorage.getItem(CALENDARS_KEY);
+  if (saved) {
+    try {
+      const parsed = JSON.parse(saved) as CalendarData[];
+      // Return parsed calendars if any exist.
+      if (Array.isArray(parsed) && parsed.length > 0) {
+        return parsed;
+      }
+    } catch {
+      // ignore parse errors and fall through to default
+    }
+  }
+  // When no calendars are saved, initialise with a default calendar.
+  const defaultId = Date.now().toString();
+  const defaultCalendar: CalendarData = {
+    id: defaultId,
+    name: '시간표1',
+    templates: [],
+    events: []
+  };
+  // Persist the default calendar immediately.
+  try {
+    localStorage.setItem(CALENDARS_KEY, JSON.stringify([defaultCalendar]));
+    localStorage.setItem(SELECTED_CALENDAR_KEY, defaultId);
+  } catch {
+    // ignore write errors
+  }
+  return [defaultCalendar];
+}
+
 /**
  * Custom hook that manages multiple calendars, their templates and events.
  * Each calendar stores its own templates and events. The selected calendar
  * determines which templates and events are currently displayed. All data
  * persists to localStorage so the user can leave and return without losing
  * their schedule.
+ *
+ * Every change to the calendars goes through `mutate`, which records the
+ * previous calendars so it can be undone (`undo`/`redo`). Deletions also raise
+ * an `undoNotice` for the page to show as a toast.
  */
 export function useCalendar() {
-  // Load calendars from localStorage on initial render. If none exist
-  // create a default calendar so that users always have one schedule to work with.
-  const [calendars, setCalendars] = useState<CalendarData[]>(() => {
-    if (typeof window === 'undefined') return [];
-    const saved = localStorage.getItem(CALENDARS_KEY);
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved) as CalendarData[];
-        // Return parsed calendars if any exist.
-        if (Array.isArray(parsed) && parsed.length > 0) {
-          return parsed;
-        }
-      } catch {
-        // ignore parse errors and fall through to default
-      }
-    }
-    // When no calendars are saved, initialise with a default calendar.
-    const defaultId = Date.now().toString();
-    const defaultCalendar: CalendarData = {
-      id: defaultId,
-      name: '시간표1',
-      templates: [],
-      events: []
-    };
-    // Persist the default calendar immediately.
-    try {
-      localStorage.setItem(CALENDARS_KEY, JSON.stringify([defaultCalendar]));
-      localStorage.setItem(SELECTED_CALENDAR_KEY, defaultId);
-    } catch {
-      // ignore write errors
-    }
-    return [defaultCalendar];
-  });
+  const [state, setState] = useState<CalendarState>(() => ({ calendars: loadCalendars(), past: [], future: [] }));
+  const { calendars } = state;
+  const [undoNotice, setUndoNotice] = useState<UndoNotice | null>(null);
+  // Token of the batch collecting mutations from the same handler into one undo step, or null between batches.
+  const batchRef = useRef<object | null>(null);
 
   // Load selected calendar ID from localStorage or default to first calendar.
   const [selectedCalendarId, setSelectedCalendarId] = useState<string | null>(() => {
@@ -119,13 +162,89 @@ export function useCalendar() {
    */
   const selectedCalendar: CalendarData | undefined = calendars.find(c => c.id === selectedCalendarId) || calendars[0];
 
+  // Resolved once per stored value so consumers can depend on its identity.
+  const storedSettings = selectedCalendar?.settings;
+  const settings = useMemo(() => resolveSettings(storedSettings), [storedSettings]);
+
+  /**
+   * Apply a change to the calendars and record the previous state for undo.
+   * Mutations fired together from one handler (e.g. swapping two events)
+   * become a single undo step under the first label.
+   */
+  const mutate = (label: string, updater: (prev: CalendarData[]) => CalendarData[]) => {
+    let batch = batchRef.current;
+    if (!batch) {
+      const token = {};
+      batch = token;
+      batchRef.current = token;
+      queueMicrotask(() => {
+        batchRef.current = null;
+      });
+      // A newer change would be undone first, so the toast no longer applies.
+      setUndoNotice(null);
+    }
+    setState(prev => {
+      const next = updater(prev.calendars);
+      if (next === prev.calendars) return prev;
+      // Merge only into an entry this batch pushed itself; a no-op earlier in the batch pushes nothing.
+      const past =
+        prev.past[prev.past.length - 1]?.batch === batch
+          ? prev.past
+          : [...prev.past, { label, calendars: prev.calendars, batch, selectedCalendarId }].slice(-HISTORY_LIMIT);
+      return { calendars: next, past, future: [] };
+    });
+  };
+
+  /**
+   * Revert the most recent change. Undoing the deletion of the selected
+   * calendar selects it again.
+   */
+  const undo = () => {
+    const restoredId = state.past[state.past.length - 1]?.selectedCalendarId;
+    if (restoredId && !calendars.some(c => c.id === restoredId)) {
+      setSelectedCalendarId(restoredId);
+    }
+    setState(prev => {
+      const entry = prev.past[prev.past.length - 1];
+      if (!entry) return prev;
+      return {
+        calendars: entry.calendars,
+        past: prev.past.slice(0, -1),
+        future: [{ label: entry.label, calendars: prev.calendars }, ...prev.future]
+      };
+    });
+    setUndoNotice(null);
+  };
+
+  /** Re-apply the most recently undone change. */
+  const redo = () => {
+    setState(prev => {
+      const [entry, ...future] = prev.future;
+      if (!entry) return prev;
+      return {
+        calendars: entry.calendars,
+        past: [...prev.past, { label: entry.label, calendars: prev.calendars }],
+        future
+      };
+    });
+  };
+
+  /** Record a destructive change so the page can offer to undo it. */
+  const notifyUndo = (label: string) => {
+    setUndoNotice({ id: Date.now(), label });
+  };
+
+  const dismissUndoNotice = () => {
+    setUndoNotice(null);
+  };
+
   /**
    * Create a new calendar with the given name and select it.
    */
   const addCalendar = (name: string) => {
     const id = Date.now().toString();
     const newCal: CalendarData = { id, name, templates: [], events: [] };
-    setCalendars(prev => [...prev, newCal]);
+    mutate(`"${name}" 시간표 추가`, prev => [...prev, newCal]);
     setSelectedCalendarId(id);
   };
 
@@ -137,22 +256,23 @@ export function useCalendar() {
   };
 
   /**
-   * Helper to update a calendar by ID.
+   * Helper to update a calendar by ID, recorded for undo under `label`.
    */
-  const updateCalendar = (id: string, updater: (cal: CalendarData) => CalendarData) => {
-    setCalendars(prev => prev.map(c => (c.id === id ? updater(c) : c)));
+  const updateCalendar = (id: string, label: string, updater: (cal: CalendarData) => CalendarData) => {
+    mutate(label, prev => prev.map(c => (c.id === id ? updater(c) : c)));
   };
 
   /**
-   * Add a new template to the selected calendar.
+   * Add a new template to the selected calendar and return its ID.
    */
-  const addTemplate = (templateData: Omit<Template, 'id'>) => {
-    if (!selectedCalendar) return;
+  const addTemplate = (templateData: Omit<Template, 'id'>): string | undefined => {
+    if (!selectedCalendar) return undefined;
     const newTemplate: Template = { ...templateData, id: Date.now().toString() };
-    updateCalendar(selectedCalendar.id, cal => ({
+    updateCalendar(selectedCalendar.id, `"${templateData.name}" 템플릿 추가`, cal => ({
       ...cal,
       templates: [...cal.templates, newTemplate]
     }));
+    return newTemplate.id;
   };
 
   /**
@@ -164,7 +284,7 @@ export function useCalendar() {
     // existing events so that events remain independent copies of their
     // templates. This satisfies the requirement that changes in the template
     // storage should not affect events already placed on the calendar.
-    updateCalendar(selectedCalendar.id, cal => ({
+    updateCalendar(selectedCalendar.id, `"${templateData.name}" 템플릿 수정`, cal => ({
       ...cal,
       templates: cal.templates.map(t => (t.id === templateId ? { ...t, ...templateData, id: templateId } : t))
       // leave cal.events unchanged
@@ -179,28 +299,137 @@ export function useCalendar() {
     // Remove the template from storage but keep events intact. Events store their
     // own copy of the template and should remain even if the original template
     // is deleted.
-    updateCalendar(selectedCalendar.id, cal => ({
+    const name = selectedCalendar.templates.find(t => t.id === templateId)?.name ?? '';
+    const label = `"${name}" 템플릿 삭제`;
+    updateCalendar(selectedCalendar.id, label, cal => ({
       ...cal,
       templates: cal.templates.filter(t => t.id !== templateId)
       // leave events unchanged
     }));
+    notifyUndo(label);
+  };
+
+  /**
+   * Move a template within the template storage: into the pinned section or a
+   * folder, just before `beforeId` or at the end of that section.
+   */
+  const reorderTemplate = (templateId: string, target: TemplateSectionKey, beforeId?: string) => {
+    if (!selectedCalendar) return;
+    updateCalendar(selectedCalendar.id, '템플릿 순서 변경', cal => ({
+      ...cal,
+      templates: moveTemplate(cal.templates, templateId, target, beforeId)
+    }));
+  };
+
+  /**
+   * Pin a template to the top of the template storage, or unpin it back into its folder.
+   */
+  const toggleTemplatePinned = (templateId: string) => {
+    if (!selectedCalendar) return;
+    const template = selectedCalendar.templates.find(t => t.id === templateId);
+    if (!template) return;
+    updateCalendar(selectedCalendar.id, `"${template.name}" 템플릿 ${template.pinned ? '고정 해제' : '고정'}`, cal => ({
+      ...cal,
+      templates: cal.templates.map(t => (t.id === templateId ? { ...t, pinned: t.pinned ? undefined : true } : t))
+    }));
+  };
+
+  /**
+   * Add an empty template folder to the selected calendar.
+   */
+  const addTemplateGroup = (name: string) => {
+    if (!selectedCalendar) return;
+    const group: TemplateGroup = { id: `group-${Date.now()}`, name };
+    updateCalendar(selectedCalendar.id, `"${name}" 폴더 추가`, cal => ({
+      ...cal,
+      templateGroups: [...(cal.templateGroups ?? []), group]
+    }));
+  };
+
+  const renameTemplateGroup = (groupId: string, name: string) => {
+    if (!selectedCalendar) return;
+    updateCalendar(selectedCalendar.id, `"${name}" 폴더 이름 변경`, cal => ({
+      ...cal,
+      templateGroups: (cal.templateGroups ?? []).map(group => (group.id === groupId ? { ...group, name } : group))
+    }));
+  };
+
+  /**
+   * Delete a template folder. Its templates are kept and become ungrouped.
+   */
+  const deleteTemplateGroup = (groupId: string) => {
+    if (!selectedCalendar) return;
+    const name = selectedCalendar.templateGroups?.find(group => group.id === groupId)?.name ?? '';
+    const label = `"${name}" 폴더 삭제`;
+    updateCalendar(selectedCalendar.id, label, cal => ({
+      ...cal,
+      templateGroups: (cal.templateGroups ?? []).filter(group => group.id !== groupId),
+      templates: cal.templates.map(t => (t.groupId === groupId ? { ...t, groupId: undefined } : t))
+    }));
+    notifyUndo(label);
+  };
+
+  /**
+   * Link a template of the selected calendar to a library template, or unlink
+   * it when `libraryId` is undefined.
+   */
+  const linkTemplate = (templateId: string, libraryId: string | undefined) => {
+    if (!selectedCalendar) return;
+    const name = selectedCalendar.templates.find(t => t.id === templateId)?.name ?? '';
+    updateCalendar(selectedCalendar.id, `"${name}" 템플릿 ${libraryId ? '라이브러리에 연결' : '연결 해제'}`, cal => ({
+      ...cal,
+      templates: cal.templates.map(t => (t.id === templateId ? { ...t, libraryId } : t))
+    }));
+  };
+
+  /**
+   * Apply a library edit to every template linked to it, in all calendars.
+   * Like other template edits, events already placed keep their own copy.
+   */
+  const updateLinkedTemplates = (libraryId: string, templateData: Omit<Template, 'id'>) => {
+    mutate(`"${templateData.name}" 템플릿을 연결된 시간표에 반영`, prev => {
+      if (!prev.some(cal => cal.templates.some(t => t.libraryId === libraryId))) return prev;
+      return prev.map(cal =>
+        cal.templates.some(t => t.libraryId === libraryId)
+          ? {
+              ...cal,
+              templates: cal.templates.map(t => (t.libraryId === libraryId ? applyLibraryTemplate(t, templateData) : t))
+            }
+          : cal
+      );
+    });
   };
 
   /**
    * Add a new event to the selected calendar. An independent copy of the template
    * is stored with the event to decouple it from future template updates.
+   * One-off events carry a `date`; their `day` is derived from it so both
+   * fields always agree.
    */
   const addEvent = (eventData: Omit<CalendarEvent, 'id' | 'template'> & { template: Template }) => {
-    if (!selectedCalendar) return;
-    const newEvent: CalendarEvent = {
+    addEvents([eventData]);
+  };
+
+  /**
+   * Add several events to the selected calendar as a single undo step, e.g.
+   * when pasting a copied day. Each event is prepared as in `addEvent`.
+   */
+  const addEvents = (eventsData: (Omit<CalendarEvent, 'id' | 'template'> & { template: Template })[]) => {
+    if (!selectedCalendar || eventsData.length === 0) return;
+    const now = Date.now();
+    const newEvents: CalendarEvent[] = eventsData.map((eventData, index) => ({
       ...eventData,
-      id: Date.now().toString(),
+      // Events added together share a timestamp, so suffix all but the first.
+      id: index === 0 ? now.toString() : `${now}-${index}`,
       template: { ...eventData.template },
-      templateId: eventData.template.id
-    };
-    updateCalendar(selectedCalendar.id, cal => ({
+      templateId: eventData.template.id,
+      day: eventData.date ? getDayIndex(parseDateKey(eventData.date)) : eventData.day
+    }));
+    const label =
+      newEvents.length === 1 ? `"${newEvents[0].template.name}" 일정 추가` : `일정 ${newEvents.length}개 추가`;
+    updateCalendar(selectedCalendar.id, label, cal => ({
       ...cal,
-      events: [...cal.events, newEvent]
+      events: [...cal.events, ...newEvents]
     }));
   };
 
@@ -209,21 +438,71 @@ export function useCalendar() {
    */
   const deleteEvent = (eventId: string) => {
     if (!selectedCalendar) return;
-    updateCalendar(selectedCalendar.id, cal => ({
+    const name = selectedCalendar.events.find(e => e.id === eventId)?.template.name ?? '';
+    const label = `"${name}" 일정 삭제`;
+    updateCalendar(selectedCalendar.id, label, cal => ({
       ...cal,
       events: cal.events.filter(e => e.id !== eventId)
     }));
+    notifyUndo(label);
   };
 
   /**
    * Update an event by ID in the selected calendar. Does not recalculate endTime; that
-   * should be handled by the caller if template duration changes.
+   * should be handled by the caller if template duration changes. When the update
+   * carries a `date`, the weekday is re-derived from it.
    */
   const updateEvent = (eventId: string, updates: Partial<CalendarEvent>) => {
     if (!selectedCalendar) return;
-    updateCalendar(selectedCalendar.id, cal => ({
+    const normalized = updates.date ? { ...updates, day: getDayIndex(parseDateKey(updates.date)) } : updates;
+    const name = selectedCalendar.events.find(e => e.id === eventId)?.template.name ?? '';
+    updateCalendar(selectedCalendar.id, `"${name}" 일정 변경`, cal => ({
+      ...cal,
+      events: cal.events.map(e => (e.id === eventId ? { ...e, ...normalized } : e))
+    }));
+  };
+
+  /**
+   * Apply updates to several events in the selected calendar as a single undo
+   * step, e.g. when moving or recolouring a multi-selection.
+   */
+  const updateEvents = (changes: { id: string; updates: Partial<CalendarEvent> }[]) => {
+    if (!selectedCalendar || changes.length === 0) return;
+    const byId = new Map(
+      changes.map(({ id, updates }) => [
+        id,
+        updates.date ? { ...updates, day: getDayIndex(parseDateKey(updates.date)) } : updates
+      ])
+    );
+    updateCalendar(selectedCalendar.id, `일정 ${changes.length}개 변경`, cal => ({
+      ...cal,
+      events: cal.events.map(e => (byId.has(e.id) ? { ...e, ...byId.get(e.id) } : e))
+    }));
+  };
+
+  /**
+   * Delete several events from the selected calendar as a single undo step.
+   */
+  const deleteEvents = (eventIds: string[]) => {
+    if (!selectedCalendar || eventIds.length === 0) return;
+    const ids = new Set(eventIds);
+    const label = `일정 ${ids.size}개 삭제`;
+    updateCalendar(selectedCalendar.id, label, cal => ({
+      ...cal,
+      events: cal.events.filter(e => !ids.has(e.id))
+    }));
+    notifyUndo(label);
+  };
+
+  /**
+   * Update the grid display settings of the selected calendar. Only the given
+   * fields change; the rest keep their stored (or default) values.
+   */
+  const updateSettings = (updates: Partial<CalendarSettings>) => {
+    if (!selectedCalendar) return;
+    updateCalendar(selectedCalendar.id, '시간표 설정 변경', cal => ({
       ...cal,
-      events: cal.events.map(e => (e.id === eventId ? { ...e, ...updates } : e))
+      settings: resolveSettings({ ...cal.settings, ...updates })
     }));
   };
 
@@ -231,7 +510,7 @@ export function useCalendar() {
    * Rename a calendar. Updates the name of the calendar with the given ID.
    */
   const renameCalendar = (calendarId: string, newName: string) => {
-    setCalendars(prev => prev.map(c => (c.id === calendarId ? { ...c, name: newName } : c)));
+    mutate(`"${newName}"(으)로 이름 변경`, prev => prev.map(c => (c.id === calendarId ? { ...c, name: newName } : c)));
   };
 
   /**
@@ -239,27 +518,24 @@ export function useCalendar() {
    * the selection is moved to the first remaining calendar, or cleared if none.
    */
   const deleteCalendar = (calendarId: string) => {
-    setCalendars(prev => {
-      const filtered = prev.filter(c => c.id !== calendarId);
-      // Update the selected calendar if it matches the deleted ID
-      if (selectedCalendarId === calendarId) {
-        if (filtered.length > 0) {
-          setSelectedCalendarId(filtered[0].id);
-        } else {
-          setSelectedCalendarId(null);
-        }
-      }
-      return filtered;
-    });
+    const name = calendars.find(c => c.id === calendarId)?.name ?? '';
+    const label = `"${name}" 시간표 삭제`;
+    mutate(label, prev => prev.filter(c => c.id !== calendarId));
+    // Update the selected calendar if it matches the deleted ID
+    if (selectedCalendarId === calendarId) {
+      const remaining = calendars.filter(c => c.id !== calendarId);
+      setSelectedCalendarId(remaining.length > 0 ? remaining[0].id : null);
+    }
+    notifyUndo(label);
   };
 
   /**
    * Reorder calendars. Moves the calendar at fromIndex to toIndex.
    */
   const reorderCalendars = (fromIndex: number, toIndex: number) => {
-    setCalendars(prev => {
+    mutate('시간표 순서 변경', prev => {
       const updated = [...prev];
-      if (fromIndex < 0 || toIndex < 0 || fromIndex >= updated.length || toIndex >= updated.length) return updated;
+      if (fromIndex < 0 || toIndex < 0 || fromIndex >= updated.length || toIndex >= updated.length) return prev;
       const [moved] = updated.splice(fromIndex, 1);
       updated.splice(toIndex, 0, moved);
       return updated;
@@ -272,7 +548,9 @@ export function useCalendar() {
     selectedCalendar,
     // Expose templates and events of the selected calendar for convenience
     templates: selectedCalendar?.templates ?? [],
+    templateGroups: selectedCalendar?.templateGroups ?? [],
     events: selectedCalendar?.events ?? [],
+    settings,
     viewMode,
     setViewMode,
     selectedTemplate,
@@ -281,14 +559,32 @@ export function useCalendar() {
     addTemplate,
     updateTemplate,
     deleteTemplate,
+    reorderTemplate,
+    toggleTemplatePinned,
+    addTemplateGroup,
+    renameTemplateGroup,
+    deleteTemplateGroup,
+    linkTemplate,
+    updateLinkedTemplates,
     addEvent,
+    addEvents,
     deleteEvent,
     updateEvent,
+    updateEvents,
+    deleteEvents,
+    updateSettings,
     selectTemplate,
     clearSelection,
     // Calendar management helpers
     renameCalendar,
     deleteCalendar,
-    reorderCalendars
+    reorderCalendars,
+    // Undo/redo history
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+    undoNotice,
+    dismissUndoNotice
   };
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+import { useEffect, useRef, useState } from 'react';
+import type { EventOccurrence } from '../types/calendar';
+import { MINUTES_PER_DAY, fromMinutes, getDurationMinutes, toMinutes } from '../utils/time';
+
+export interface ResizePreview {
+  eventId: string;
+  /** Date of the occurrence being resized (`YYYY-MM-DD`). */
+  date: string;
+  endTime: string;
+}
+
+interface ResizeDrag {
+  occurrence: EventOccurrence;
+  startY: number;
+  /** Pixel height of one hour row in the grid being dragged in. */
+  rowHeight: number;
+  startMinutes: number;
+  /** End in minutes from the start day's midnight; past 1440 for overnight events. */
+  endMinutes: number;
+}
+
+/**
+ * Drag-to-resize for event blocks in the time grids. `startResize` is bound to
+ * a handle's mousedown; while the pointer moves the snapped end time is exposed
+ * as `preview` so the grid can draw the block at its new size, and on release
+ * `onResize` receives the occurrence and its new end time (see
+ * `resizeOccurrence` for turning that into event updates).
+ */
+export function useEventResize(
+  onResize: (occurrence: EventOccurrence, endTime: string) => void,
+  snapStep: number
+) {
+  const [preview, setPreview] = useState<ResizePreview | null>(null);
+  const dragRef = useRef<ResizeDrag | null>(null);
+  const previewRef = useRef<ResizePreview | null>(null);
+  const onResizeRef = useRef(onResize);
+  onResizeRef.current = onResize;
+  const isResizing = preview !== null;
+
+  const startResize = (e: React.MouseEvent, occurrence: EventOccurrence, rowHeight: number) => {
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = {
+      occurrence,
+      startY: e.clientY,
+      rowHeight: rowHeight || 1,
+      startMinutes: toMinutes(occurrence.startTime),
+      endMinutes: toMinutes(occurrence.startTime) + getDurationMinutes(occurrence.startTime, occurrence.endTime)
+    };
+    const next = { eventId: occurrence.event.id, date: occurrence.date, endTime: occurrence.endTime };
+    previewRef.current = next;
+    setPreview(next);
+  };
+
+  useEffect(() => {
+    if (!isResizing) return;
+
+    const handleMove = (event: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      const delta = ((event.clientY - drag.startY) / drag.rowHeight) * 60;
+      const snapped = Math.round((drag.endMinutes + delta) / snapStep) * snapStep;
+      // Dragging past midnight makes the event run into the next day, up to 24 hours long.
+      const end = Math.min(drag.startMinutes + MINUTES_PER_DAY, Math.max(drag.startMinutes + snapStep, snapped));
+      const next = { eventId: drag.occurrence.event.id, date: drag.occurrence.date, endTime: fromMinutes(end) };
+      previewRef.current = next;
+      setPreview(next);
+    };
+
+    const handleUp = () => {
+      const drag = dragRef.current;
+      const result = previewRef.current;
+      dragRef.current = null;
+      previewRef.current = null;
+      setPreview(null);
+      // The click that follows mouseup would otherwise land on the grid cell
+      // underneath and place a new event there.
+      const swallowClick = (event: MouseEvent) => event.stopPropagation();
+      window.addEventListener('click', swallowClick, { capture: true, once: true });
+      window.setTimeout(() => window.removeEventListener('click', swallowClick, { capture: true }), 0);
+
+      if (!drag || !result || result.endTime === drag.occurrence.endTime) return;
+      onResizeRef.current(drag.occurrence, result.endTime);
+    };
+
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleUp);
+    document.body.style.cursor = 'ns-resize';
+    document.body.style.userSelect = 'none';
+    return () => {
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleUp);
+      document.body.style.cursor = '';
+      document.body.style.userSelect = '';
+    };
+  }, [isResizing, snapStep]);
+
+  /** End time to draw for an occurrence, taking an in-progress resize into account. */
+  const getDisplayEndTime = (occurrence: EventOccurrence) =>
+    preview && preview.eventId === occurrence.event.id && preview.date === occurrence.date
+      ? preview.endTime
+      : occurrence.endTime;
+
+  return { preview, startResize, getDisplayEndTime };
+}
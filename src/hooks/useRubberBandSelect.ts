@@ -0,0 +1,87 @@
+import { useEffect, useRef, useState } from 'react';
+
+/** Rectangle being dragged out, in viewport coordinates. */
+export interface SelectionRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+// Pointer travel (px) before a press on the grid counts as a selection drag rather than a click.
+const DRAG_THRESHOLD = 4;
+
+/**
+ * Rubber-band selection over a grid. `startSelection` is bound to the grid's
+ * mousedown; presses on elements carrying `data-event-id` are ignored so event
+ * blocks can still be dragged. When the pointer is released after dragging,
+ * `onSelect` receives the ids of the event blocks inside the rectangle and
+ * whether Shift/Ctrl was held to add to the current selection. A press that
+ * never moves far enough stays an ordinary click.
+ */
+export function useRubberBandSelect(
+  containerRef: React.RefObject<HTMLElement | null>,
+  onSelect: (eventIds: string[], additive: boolean) => void
+) {
+  const [rect, setRect] = useState<SelectionRect | null>(null);
+  const [origin, setOrigin] = useState<{ x: number; y: number } | null>(null);
+  const onSelectRef = useRef(onSelect);
+  onSelectRef.current = onSelect;
+
+  const startSelection = (e: React.MouseEvent) => {
+    if (e.button !== 0 || (e.target as HTMLElement).closest('[data-event-id]')) return;
+    setOrigin({ x: e.clientX, y: e.clientY });
+  };
+
+  useEffect(() => {
+    if (!origin) return;
+
+    const toRect = (event: MouseEvent): SelectionRect => ({
+      left: Math.min(origin.x, event.clientX),
+      top: Math.min(origin.y, event.clientY),
+      width: Math.abs(event.clientX - origin.x),
+      height: Math.abs(event.clientY - origin.y)
+    });
+
+    let dragging = false;
+    const handleMove = (event: MouseEvent) => {
+      const next = toRect(event);
+      if (!dragging && Math.max(next.width, next.height) < DRAG_THRESHOLD) return;
+      dragging = true;
+      document.body.style.userSelect = 'none';
+      setRect(next);
+    };
+
+    const handleUp = (event: MouseEvent) => {
+      setOrigin(null);
+      setRect(null);
+      if (!dragging) return;
+      const area = toRect(event);
+      const ids = new Set<string>();
+      containerRef.current?.querySelectorAll<HTMLElement>('[data-event-id]').forEach(element => {
+        const box = element.getBoundingClientRect();
+        const overlaps =
+          box.left < area.left + area.width &&
+          box.right > area.left &&
+          box.top < area.top + area.height &&
+          box.bottom > area.top;
+        if (overlaps && element.dataset.eventId) ids.add(element.dataset.eventId);
+      });
+      // The click that follows mouseup would otherwise place a template in the cell underneath.
+      const swallowClick = (click: MouseEvent) => click.stopPropagation();
+      window.addEventListener('click', swallowClick, { capture: true, once: true });
+      window.setTimeout(() => window.removeEventListener('click', swallowClick, { capture: true }), 0);
+      onSelectRef.current([...ids], event.shiftKey || event.ctrlKey || event.metaKey);
+    };
+
+    document.addEventListener('mousemove', handleMove);
+    document.addEventListener('mouseup', handleUp);
+    return () => {
+      document.removeEventListener('mousemove', handleMove);
+      document.removeEventListener('mouseup', handleUp);
+      document.body.style.userSelect = '';
+    };
+  }, [origin, containerRef]);
+
+  return { rect, startSelection };
+}
@@ -0,0 +1,51 @@
+import { useState, useEffect } from 'react';
+import type { Template } from '../types/calendar';
+
+/** localStorage key of the shared template library, kept apart from the calendars. */
+const LIBRARY_KEY = 'calendar-template-library';
+
+function loadLibrary(): Template[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const parsed = JSON.parse(localStorage.getItem(LIBRARY_KEY) || '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Templates shared by every calendar. The library is persisted on its own and
+ * is not part of the calendar undo history; linking calendar templates to it
+ * and pushing library edits to them is done through `useCalendar`.
+ */
+export function useTemplateLibrary() {
+  const [library, setLibrary] = useState<Template[]>(loadLibrary);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      try {
+        localStorage.setItem(LIBRARY_KEY, JSON.stringify(library));
+      } catch (e) {
+        console.error('Failed to save template library:', e);
+      }
+    }
+  }, [library]);
+
+  /** Add a template to the library and return it with its new ID. */
+  const addLibraryTemplate = (templateData: Omit<Template, 'id'>): Template => {
+    const template: Template = { ...templateData, id: `lib-${Date.now()}` };
+    setLibrary(prev => [...prev, template]);
+    return template;
+  };
+
+  const updateLibraryTemplate = (templateId: string, templateData: Omit<Template, 'id'>) => {
+    setLibrary(prev => prev.map(t => (t.id === templateId ? { ...templateData, id: templateId } : t)));
+  };
+
+  const deleteLibraryTemplate = (templateId: string) => {
+    setLibrary(prev => prev.filter(t => t.id !== templateId));
+  };
+
+  return { library, addLibraryTemplate, updateLibraryTemplate, deleteLibraryTemplate };
+}
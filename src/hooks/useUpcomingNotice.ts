@@ -1,6 +1,8 @@
 // src/hooks/useUpcomingNotice.ts
 import { useEffect, useState } from 'react';
 import type { CalendarEvent } from '../types/calendar';
+import { expandOccurrences, getOccurrenceStart } from '../utils/occurrences';
+import { addDays } from '../utils/time';
 
 export interface UpcomingNotice {
   eventId: string;
@@ -9,7 +11,7 @@ export interface UpcomingNotice {
 }
 
 /**
- * 오늘 요일의 일정들 중
+ * 오늘과 내일의 일정들 중 (자정 직전에도 다음날 새벽 일정을 알려주기 위해)
  *  - 지금 이후이고
  *  - 60분 이내에 시작하는 일정들 중
  * 가장 빨리 시작하는 1개를 골라서
@@ -28,23 +30,15 @@ export function useUpcomingNotice(
 
     const update = () => {
       const now = new Date();
-      // 기존 코드에서 쓰던 요일 계산 로직 그대로 사용
-      const nowDay = (now.getDay() + 6) % 7;
 
       let best: UpcomingNotice | null = null;
 
-      for (const ev of events) {
-        if (ev.day !== nowDay) continue;
-        if (!ev.startTime) continue;
+      // 반복 규칙과 날짜 지정 일정을 펼친 오늘~내일의 발생 목록 기준
+      for (const occurrence of expandOccurrences(events, now, addDays(now, 1))) {
+        const ev = occurrence.event;
+        if (!occurrence.startTime) continue;
 
-        const [h, m] = ev.startTime.split(':').map(Number);
-        const start = new Date(
-          now.getFullYear(),
-          now.getMonth(),
-          now.getDate(),
-          h || 0,
-          m || 0
-        );
+        const start = getOccurrenceStart(occurrence);
 
         const diffMin = (start.getTime() - now.getTime()) / 60000;
 
@@ -1,5 +1,6 @@
 import { CalendarEvent, CalendarData } from '../../../types/calendar';
 import { useState } from 'react';
+import { getOccurrencesForDate } from '../../../utils/occurrences';
 
 interface CalendarHeaderProps {
   viewMode: 'week' | 'month';
@@ -26,6 +27,14 @@ interface CalendarHeaderProps {
   onReorderCalendars: (from: number, to: number) => void;
   /** Create a new calendar with the provided name. */
   onCreateCalendar: (name: string) => void;
+  /** Open the display settings of the selected calendar. */
+  onOpenSettings: () => void;
+  /** Open the keyboard shortcut help. */
+  onOpenShortcuts: () => void;
+  /** Toggle the search panel. */
+  onOpenSearch: () => void;
+  /** Whether a search query is highlighting events. */
+  isSearchActive?: boolean;
 }
 
 /**
@@ -50,18 +59,17 @@ export default function CalendarHeader({
   onRenameCalendar,
   onDeleteCalendar,
   onReorderCalendars,
-  onCreateCalendar
+  onCreateCalendar,
+  onOpenSettings,
+  onOpenShortcuts,
+  onOpenSearch,
+  isSearchActive = false
 }: CalendarHeaderProps) {
   // Determine the currently selected calendar name
   const currentCalendar = calendars.find(c => c.id === selectedCalendarId);
   const currentName = currentCalendar?.name || '캘린더';
   // Filter today's events for display
-  const todayEvents = events.filter(event => {
-    const today = new Date();
-    const dayOfWeek = today.getDay();
-    const adjustedDay = dayOfWeek === 0 ? 6 : dayOfWeek - 1;
-    return event.day === adjustedDay;
-  });
+  const todayEvents = getOccurrencesForDate(events, new Date());
   // Dropdown state and drag indices
   const [isDropdownOpen, setDropdownOpen] = useState(false);
   const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
@@ -279,6 +287,32 @@ export default function CalendarHeader({
               <span className="absolute top-1 right-1 inline-block w-2 h-2 bg-red-500 rounded-full"></span>
             )}
           </div>
+          {/* Search button */}
+          <button
+            onClick={onOpenSearch}
+            className={`w-8 h-8 flex items-center justify-center rounded-lg transition-colors cursor-pointer ${
+              isSearchActive ? 'text-blue-600 bg-blue-50 hover:bg-blue-100' : 'text-gray-600 hover:text-gray-900 hover:bg-gray-100'
+            }`}
+            title="검색 (/)"
+          >
+            <i className="ri-search-line w-4 h-4 flex items-center justify-center"></i>
+          </button>
+          {/* Shortcut help button */}
+          <button
+            onClick={onOpenShortcuts}
+            className="w-8 h-8 flex items-center justify-center text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors cursor-pointer"
+            title="단축키 (?)"
+          >
+            <i className="ri-keyboard-line w-4 h-4 flex items-center justify-center"></i>
+          </button>
+          {/* Settings button */}
+          <button
+            onClick={onOpenSettings}
+            className="w-8 h-8 flex items-center justify-center text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-lg transition-colors cursor-pointer"
+            title="시간표 설정"
+          >
+            <i className="ri-settings-3-line w-4 h-4 flex items-center justify-center"></i>
+          </button>
           {/* Share button */}
           <button
             onClick={onShare}
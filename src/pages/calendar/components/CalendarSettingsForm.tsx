@@ -0,0 +1,264 @@
+import { useState, useEffect } from 'react';
+import type { BlockedRange, CalendarSettings, GridMode, Period } from '../../../types/calendar';
+import { DAY_LABELS, getPeriodLabel, sortPeriods } from '../../../utils/calendarSettings';
+import { addMinutes, getDurationMinutes, toMinutes } from '../../../utils/time';
+
+interface CalendarSettingsFormProps {
+  /** Settings currently applied to the selected calendar. */
+  settings: CalendarSettings;
+  onSubmit: (settings: CalendarSettings) => void;
+  onCancel: () => void;
+}
+
+const HOUR_OPTIONS = Array.from({ length: 24 }, (_, i) => i);
+
+/**
+ * 시간표 표시 설정 폼. 주간 그리드에 보일 첫/마지막 시간, 주말 숨기기,
+ * 주의 시작 요일, 그리드 방식(시간/교시)과 교시표, 쉬는 시간·점심시간 같은 고정 시간을
+ * 시간표마다 따로 설정합니다.
+ */
+export default function CalendarSettingsForm({ settings, onSubmit, onCancel }: CalendarSettingsFormProps) {
+  const [startHour, setStartHour] = useState(settings.startHour);
+  const [endHour, setEndHour] = useState(settings.endHour);
+  const [hideWeekends, setHideWeekends] = useState(settings.hideWeekends);
+  const [weekStartsOn, setWeekStartsOn] = useState(settings.weekStartsOn);
+  const [gridMode, setGridMode] = useState<GridMode>(settings.gridMode);
+  const [periods, setPeriods] = useState<Period[]>(settings.periods);
+  const [blockedRanges, setBlockedRanges] = useState<BlockedRange[]>(settings.blockedRanges);
+
+  useEffect(() => {
+    setStartHour(settings.startHour);
+    setEndHour(settings.endHour);
+    setHideWeekends(settings.hideWeekends);
+    setWeekStartsOn(settings.weekStartsOn);
+    setGridMode(settings.gridMode);
+    setPeriods(settings.periods);
+    setBlockedRanges(settings.blockedRanges);
+  }, [settings]);
+
+  const updatePeriod = (id: string, updates: Partial<Period>) => {
+    setPeriods(prev => prev.map(period => (period.id === id ? { ...period, ...updates } : period)));
+  };
+
+  /** 마지막 교시와 같은 길이로, 10분 쉬고 이어지는 교시를 추가합니다. */
+  const addPeriod = () => {
+    setPeriods(prev => {
+      const last = prev[prev.length - 1];
+      const startTime = last ? addMinutes(last.endTime, 10) : '09:00';
+      const length = last ? getDurationMinutes(last.startTime, last.endTime) : 50;
+      return [...prev, { id: `period-${Date.now()}`, startTime, endTime: addMinutes(startTime, length) }];
+    });
+  };
+
+  const updateBlockedRange = (id: string, updates: Partial<BlockedRange>) => {
+    setBlockedRanges(prev => prev.map(range => (range.id === id ? { ...range, ...updates } : range)));
+  };
+
+  const addBlockedRange = () => {
+    setBlockedRanges(prev => [
+      ...prev,
+      { id: `blocked-${Date.now()}`, name: prev.length === 0 ? '점심시간' : '쉬는 시간', startTime: '12:00', endTime: '13:00' }
+    ]);
+  };
+
+  // 끝 시간이 시작 시간과 같거나 이른 교시는 저장하지 않습니다.
+  const invalidPeriodIds = new Set(
+    periods.filter(period => toMinutes(period.endTime) <= toMinutes(period.startTime)).map(period => period.id)
+  );
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (invalidPeriodIds.size > 0) return;
+    onSubmit({
+      startHour,
+      endHour: Math.max(startHour, endHour),
+      hideWeekends,
+      weekStartsOn,
+      gridMode,
+      periods: sortPeriods(periods),
+      blockedRanges: sortPeriods(blockedRanges.map(range => ({ ...range, name: range.name.trim() || '고정 시간' })))
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Grid mode */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">그리드 방식</label>
+        <div className="flex items-center bg-gray-100 rounded-lg p-0.5 w-fit">
+          {([['hours', '시간 단위'], ['periods', '교시 단위']] as const).map(([mode, label]) => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setGridMode(mode)}
+              className={`px-3 py-1.5 rounded-md text-xs font-medium transition-colors whitespace-nowrap cursor-pointer ${
+                gridMode === mode ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {/* Period table */}
+      {gridMode === 'periods' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">교시표</label>
+          <div className="space-y-2">
+            {periods.map((period, index) => (
+              <div key={period.id} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={period.name ?? ''}
+                  onChange={e => updatePeriod(period.id, { name: e.target.value })}
+                  placeholder={getPeriodLabel({ ...period, name: '' }, index)}
+                  className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <input
+                  type="time"
+                  value={period.startTime}
+                  onChange={e => updatePeriod(period.id, { startTime: e.target.value })}
+                  className={`px-2 py-1.5 border rounded-lg text-sm ${invalidPeriodIds.has(period.id) ? 'border-red-400' : 'border-gray-300'}`}
+                  required
+                />
+                <span className="text-gray-500">~</span>
+                <input
+                  type="time"
+                  value={period.endTime}
+                  onChange={e => updatePeriod(period.id, { endTime: e.target.value })}
+                  className={`px-2 py-1.5 border rounded-lg text-sm ${invalidPeriodIds.has(period.id) ? 'border-red-400' : 'border-gray-300'}`}
+                  required
+                />
+                <button
+                  type="button"
+                  onClick={() => setPeriods(prev => prev.filter(p => p.id !== period.id))}
+                  className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-red-500 cursor-pointer"
+                  title="교시 삭제"
+                >
+                  <i className="ri-close-line w-4 h-4 flex items-center justify-center"></i>
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={addPeriod}
+              className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 cursor-pointer"
+            >
+              <i className="ri-add-line w-4 h-4 flex items-center justify-center"></i>
+              <span className="text-sm">교시 추가</span>
+            </button>
+          </div>
+          {invalidPeriodIds.size > 0 && (
+            <p className="text-xs text-red-500 mt-1">교시의 끝 시간은 시작 시간보다 늦어야 합니다.</p>
+          )}
+        </div>
+      )}
+      {/* Visible hours */}
+      {gridMode === 'hours' && (
+        <div className="flex space-x-3">
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-2">첫 시간</label>
+            <select
+              value={startHour}
+              onChange={e => setStartHour(parseInt(e.target.value))}
+              className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            >
+              {HOUR_OPTIONS.map(hour => (
+                <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1">
+            <label className="block text-sm font-medium text-gray-700 mb-2">마지막 시간</label>
+            <select
+              value={endHour}
+              onChange={e => setEndHour(parseInt(e.target.value))}
+              className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            >
+              {HOUR_OPTIONS.filter(hour => hour >= startHour).map(hour => (
+                <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      )}
+      {/* Blocked ranges */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">고정 시간</label>
+        <p className="text-xs text-gray-500 mb-2">쉬는 시간, 점심시간처럼 매일 일정을 놓지 않는 시간입니다.</p>
+        <div className="space-y-2">
+          {blockedRanges.map(range => (
+            <div key={range.id} className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={range.name}
+                onChange={e => updateBlockedRange(range.id, { name: e.target.value })}
+                placeholder="이름"
+                className="w-24 px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+              />
+              <input
+                type="time"
+                value={range.startTime}
+                onChange={e => updateBlockedRange(range.id, { startTime: e.target.value })}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                required
+              />
+              <span className="text-gray-500">~</span>
+              <input
+                type="time"
+                value={range.endTime}
+                onChange={e => updateBlockedRange(range.id, { endTime: e.target.value })}
+                className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm"
+                required
+              />
+              <button
+                type="button"
+                onClick={() => setBlockedRanges(prev => prev.filter(r => r.id !== range.id))}
+                className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-red-500 cursor-pointer"
+                title="고정 시간 삭제"
+              >
+                <i className="ri-close-line w-4 h-4 flex items-center justify-center"></i>
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={addBlockedRange}
+            className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            <i className="ri-add-line w-4 h-4 flex items-center justify-center"></i>
+            <span className="text-sm">고정 시간 추가</span>
+          </button>
+        </div>
+      </div>
+      {/* Week start */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">주의 시작 요일</label>
+        <div className="flex flex-wrap gap-2">
+          {DAY_LABELS.map((label, day) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => setWeekStartsOn(day)}
+              className={`px-3 py-1.5 text-sm rounded-lg border cursor-pointer ${
+                weekStartsOn === day ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      </div>
+      {/* Weekends */}
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input type="checkbox" checked={hideWeekends} onChange={e => setHideWeekends(e.target.checked)} />
+        <span>주말(토·일) 숨기기</span>
+      </label>
+      {/* Action buttons */}
+      <div className="flex space-x-3 pt-4">
+        <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 border rounded-lg border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">취소</button>
+        <button type="submit" className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm">저장</button>
+      </div>
+    </form>
+  );
+}
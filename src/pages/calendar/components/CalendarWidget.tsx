@@ -1,11 +1,50 @@
 import { useState, useRef, useEffect } from 'react';
-import { CalendarEvent } from '../../../types/calendar';
+import type { CalendarEvent, CalendarSettings, EventOccurrence } from '../../../types/calendar';
+import {
+  describeException,
+  expandOccurrences,
+  findConflicts,
+  getConflictingOccurrences,
+  getEventColor,
+  getOccurrenceUrls,
+  getOccurrencesForDate,
+  layoutSegments,
+  resizeOccurrence,
+  splitAtMidnight
+} from '../../../utils/occurrences';
+import type { OccurrenceSegment } from '../../../utils/occurrences';
+import { addDays, getDayIndex, parseDateKey, toDateKey } from '../../../utils/time';
+import {
+  DAY_LABELS,
+  clipToVisibleHours,
+  findBlockedOverlaps,
+  findNearestPeriodIndex,
+  findPeriodIndex,
+  formatBlockedWarning,
+  getBlockedIntervals,
+  getDisplayWeekStart,
+  getPeriodLabel,
+  getPeriodRows,
+  getVisibleDays,
+  getVisibleHours
+} from '../../../utils/calendarSettings';
+import { openEventLinks } from '../../../utils/eventLinks';
+import type { SaveTemplateTarget } from '../../../utils/templateLibrary';
+import { useEventResize } from '../../../hooks/useEventResize';
+import Modal from '../../../components/base/Modal';
+import ConflictDialog from './ConflictDialog';
 
 interface CalendarWidgetProps {
   isOpen: boolean;
   onClose: () => void;
   events: CalendarEvent[];
   onCreateTemplate: () => void;
+  /** 주간 그리드에서 일정 크기를 조절할 때 호출됩니다. 없으면 조절 핸들을 표시하지 않습니다. */
+  onUpdateEvent?: (eventId: string, updates: Partial<CalendarEvent>) => void;
+  /** 일정을 새 템플릿으로 저장합니다. 없으면 일정의 우클릭 메뉴를 표시하지 않습니다. */
+  onSaveAsTemplate?: (event: CalendarEvent, target: SaveTemplateTarget) => void;
+  /** 표시할 시간 범위 또는 교시표, 고정 시간, 주말 표시 여부와 주의 시작 요일. */
+  settings: CalendarSettings;
 }
 
 interface WidgetState {
@@ -25,12 +64,28 @@ const STORAGE_KEY = 'calendar-widget-state';
 // Key for persisting the widget's own view mode (week/month)
 const WIDGET_VIEW_MODE_KEY = 'calendar-widget-view-mode';
 
+// 주간 그리드에서 일정 크기를 조절할 때 종료 시간을 맞출 분 단위
+const RESIZE_SNAP_MINUTES = 15;
+
+// 고정 시간(쉬는 시간, 점심시간) 띠의 빗금 배경
+const BLOCKED_STYLE_WIDGET = {
+  backgroundImage: 'repeating-linear-gradient(135deg, rgb(0 0 0 / 0.06) 0 5px, transparent 5px 10px)'
+};
+
 /**
  * 캘린더 위젯. 팝업이나 데스크톱 모드에서 월간/주간 캘린더를 표시하고 이벤트를 클릭하면
  * URL을 열고 첨부 파일을 볼 수 있습니다. 첨부 파일은 템플릿의 attachments 배열이나
  * fileData(File 객체) 속성을 통해 열립니다.
  */
-export default function CalendarWidget({ isOpen, onClose, events, onCreateTemplate }: CalendarWidgetProps) {
+export default function CalendarWidget({
+  isOpen,
+  onClose,
+  events,
+  onCreateTemplate,
+  onUpdateEvent,
+  onSaveAsTemplate,
+  settings
+}: CalendarWidgetProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
@@ -56,6 +111,20 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
     };
   });
   const widgetRef = useRef<HTMLDivElement>(null);
+  // 크기 조절 결과가 다른 일정과 겹칠 때 확인을 기다리는 변경
+  const [pendingResize, setPendingResize] = useState<{ conflicts: EventOccurrence[]; apply: () => void } | null>(null);
+  const { startResize, getDisplayEndTime } = useEventResize((occurrence, endTime) => {
+    if (!onUpdateEvent) return;
+    const blocked = findBlockedOverlaps(settings.blockedRanges, occurrence.startTime, endTime);
+    if (blocked.length > 0 && !window.confirm(formatBlockedWarning(blocked))) return;
+    const apply = () => onUpdateEvent(occurrence.event.id, resizeOccurrence(occurrence, endTime));
+    const conflicts = findConflicts(events, parseDateKey(occurrence.date), occurrence.startTime, endTime, occurrence.event.id);
+    if (conflicts.length > 0) {
+      setPendingResize({ conflicts, apply });
+    } else {
+      apply();
+    }
+  }, RESIZE_SNAP_MINUTES);
 
   // Ref for the weekly time grid (07~18). This ref will be used to control
   // the scroll position when the user drags vertically to view hours beyond
@@ -101,15 +170,12 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
   }, [widgetState]);
 
   /**
-   * 주간 범위를 반환합니다. 현재 날짜 기준 월요일과 일요일 날짜를 계산해
-   * 표시용 문자열 범위를 제공합니다.
+   * 주간 범위를 반환합니다. 현재 날짜가 속한 주의 첫날(설정된 시작 요일)과 마지막 날을
+   * 계산해 표시용 문자열 범위를 제공합니다.
    */
   const getWeekRange = () => {
-    const dayOfWeek = (currentDate.getDay() + 6) % 7; // Monday = 0
-    const start = new Date(currentDate);
-    start.setDate(currentDate.getDate() - dayOfWeek);
-    const end = new Date(start);
-    end.setDate(start.getDate() + 6);
+    const start = getDisplayWeekStart(currentDate, settings.weekStartsOn);
+    const end = addDays(start, 6);
     return {
       start,
       end
@@ -235,14 +301,15 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
   };
 
   /**
-   * 현재 월의 달력 데이터를 생성. 월요일을 주의 시작으로 처리합니다.
+   * 현재 월의 달력 데이터를 생성. 설정된 요일을 주의 시작으로 처리하고, 주말을 숨기면
+   * 토·일 칸을 제외합니다.
    */
   const generateCalendarDays = () => {
     const year = currentDate.getFullYear();
     const month = currentDate.getMonth();
     const firstDay = new Date(year, month, 1);
     const lastDay = new Date(year, month + 1, 0);
-    const firstDayOfWeek = (firstDay.getDay() + 6) % 7;
+    const firstDayOfWeek = (getDayIndex(firstDay) - settings.weekStartsOn + 7) % 7;
     const calendarDays: any[] = [];
     const prevMonth = new Date(year, month, 0);
     for (let i = firstDayOfWeek - 1; i >= 0; i--) {
@@ -270,25 +337,23 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
         fullDate: new Date(year, month + 1, date)
       });
     }
-    return calendarDays;
+    return settings.hideWeekends
+      ? calendarDays.filter(dayData => getDayIndex(dayData.fullDate) < 5)
+      : calendarDays;
   };
 
   /**
-   * 현재 주의 달력 데이터를 생성. 월요일을 주의 시작으로 처리합니다.
-   * 7개의 dayData 객체를 반환하며, 각 객체는 해당 날짜의 정보와
+   * 현재 주의 달력 데이터를 생성. 설정된 요일을 주의 시작으로 처리합니다.
+   * 표시할 요일마다 dayData 객체를 반환하며, 각 객체는 해당 날짜의 정보와
    * fullDate를 포함합니다. 주간 뷰에서는 month/nextMonth 구분을 하지
    * 않아 isCurrentMonth는 항상 true로 설정됩니다.
    */
   const generateWeekDays = () => {
-    // Determine Monday of the current week (Monday = 0)
-    const today = currentDate;
-    const dayOfWeek = (today.getDay() + 6) % 7;
-    const monday = new Date(today);
-    monday.setDate(today.getDate() - dayOfWeek);
+    const { start } = getWeekRange();
     const weekDays: any[] = [];
     for (let i = 0; i < 7; i++) {
-      const date = new Date(monday);
-      date.setDate(monday.getDate() + i);
+      const date = addDays(start, i);
+      if (settings.hideWeekends && getDayIndex(date) >= 5) continue;
       weekDays.push({
         date: date.getDate(),
         isCurrentMonth: true,
@@ -300,44 +365,66 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
   };
 
   /**
-   * 특정 날짜에 해당하는 이벤트 목록을 반환합니다. 월간 뷰에서는 요일만을 기준으로
-   * 이벤트를 매핑합니다.
+   * 특정 날짜에 해당하는 이벤트 목록을 반환합니다. 반복 일정은 요일로, 날짜가 지정된
+   * 일정은 해당 날짜로 매핑합니다.
    */
-  const getEventsForDay = (dayData: any) => {
+  const getEventsForDay = (dayData: any): EventOccurrence[] => {
     if (!dayData.isCurrentMonth) return [];
-    const dayOfWeek = (dayData.fullDate.getDay() + 6) % 7;
-    return events.filter(event => event.day === dayOfWeek);
+    return getOccurrencesForDate(events, dayData.fullDate);
   };
 
   /**
    * ---- 위젯 주간 그리드 로직 ----
    * 주간 위젯 뷰에서는 시간표 그리드를 표시하기 위해 시간(HOURS)과 요일(dayIndex)별로
-   * 이벤트를 매핑합니다. `getEventForCellWidget`은 특정 요일과 시간에 해당하는 이벤트를
-   * 찾고, `isEventStartWidget`와 `getEventHeightWidget`는 이벤트 블록의 시작과 높이를 계산합니다.
+   * 이벤트를 매핑합니다. `getEventsForCellWidget`은 현재 주의 일정 발생 목록에서 특정 요일의
+   * 해당 시간 칸에서 시작하는 발생을 찾고, `getEventOffsetWidget`와 `getEventHeightWidget`는
+   * 분 단위 시작/종료 시간에 맞춰 이벤트 블록의 위치와 높이(px)를 계산합니다. 시간이 겹치는
+   * 발생은 `getEventColumnWidget`으로 칸의 너비를 나눠 나란히 배치합니다.
    */
-  const HOURS = Array.from({ length: 12 }, (_, i) => i + 7); // 07:00~18:00
-  const getEventForCellWidget = (dayIndex: number, hour: number) => {
-    return events.find(event => {
-      const eventStartHour = parseInt(event.startTime.split(':')[0], 10);
-      const eventEndHour = parseInt(event.endTime.split(':')[0], 10);
-      const eventEndMinute = parseInt(event.endTime.split(':')[1], 10);
-      // If event ends at a minute >0, treat end hour as inclusive of next hour
-      const actualEndHour = eventEndMinute > 0 ? eventEndHour + 1 : eventEndHour;
-      return event.day === dayIndex && hour >= eventStartHour && hour < actualEndHour;
+  const HOURS = getVisibleHours(settings);
+  const visibleDays = getVisibleDays(settings);
+  // 자정을 넘는 일정은 전날 밤 부분과 다음날 새벽 부분으로 나눠 각 날짜 열에 그립니다.
+  const { weekOccurrences, weekSegments } = (() => {
+    const { start, end } = getWeekRange();
+    const occurrences = expandOccurrences(events, addDays(start, -1), end);
+    const segments = occurrences
+      .flatMap(occurrence => splitAtMidnight(occurrence, getDisplayEndTime(occurrence)))
+      .filter(segment => segment.date >= toDateKey(start) && segment.date <= toDateKey(end));
+    return { weekOccurrences: occurrences, weekSegments: segments };
+  })();
+  const getVisibleRangeWidget = (segment: OccurrenceSegment) => clipToVisibleHours(segment.start, segment.end, settings);
+  const getEventsForCellWidget = (dayIndex: number, hour: number) => {
+    return weekSegments.filter(segment => {
+      const range = segment.day === dayIndex ? getVisibleRangeWidget(segment) : null;
+      return range !== null && Math.floor(range.start / 60) === hour;
     });
   };
-  const isEventStartWidget = (event: CalendarEvent, hour: number) => {
-    const eventStartHour = parseInt(event.startTime.split(':')[0], 10);
-    return hour === eventStartHour;
+  // 교시 그리드에서는 일정 조각을 처음 겹치는 교시 칸(겹치는 교시가 없으면 가장 가까운 교시 칸)에 차례로 쌓습니다.
+  const getEventsForPeriodWidget = (dayIndex: number, periodIndex: number) =>
+    weekSegments
+      .filter(segment => segment.day === dayIndex && findNearestPeriodIndex(settings.periods, segment.start, segment.end) === periodIndex)
+      .sort((a, b) => a.start - b.start);
+  // 고정 시간(쉬는 시간, 점심시간)은 시간 칸마다 빗금 띠로 표시합니다.
+  const blockedIntervalsWidget = getBlockedIntervals(settings.blockedRanges);
+  const getBlockedBandsWidget = (hour: number) =>
+    blockedIntervalsWidget
+      .filter(interval => interval.start < (hour + 1) * 60 && interval.end > hour * 60)
+      .map(interval => {
+        const start = Math.max(interval.start, hour * 60);
+        const end = Math.min(interval.end, (hour + 1) * 60);
+        return { interval, top: ((start - hour * 60) / 60) * 40, height: ((end - start) / 60) * 40 };
+      });
+  const weekLayoutWidget = layoutSegments(weekSegments);
+  const conflictingWidget = getConflictingOccurrences(weekOccurrences);
+  const getEventColumnWidget = (segment: OccurrenceSegment) => {
+    const { column, columns } = weekLayoutWidget.get(segment) ?? { column: 0, columns: 1 };
+    return { left: `calc(${(column / columns) * 100}% + 2px)`, width: `calc(${100 / columns}% - 4px)` };
   };
-  const getEventHeightWidget = (event: CalendarEvent) => {
-    const startHour = parseInt(event.startTime.split(':')[0], 10);
-    const endHour = parseInt(event.endTime.split(':')[0], 10);
-    const endMinute = parseInt(event.endTime.split(':')[1], 10);
-    const startMinutes = startHour * 60;
-    const endMinutes = endHour * 60 + endMinute;
-    const durationHours = (endMinutes - startMinutes) / 60;
-    return Math.max(1, Math.ceil(durationHours));
+  const getEventOffsetWidget = (segment: OccurrenceSegment) => (((getVisibleRangeWidget(segment)?.start ?? 0) % 60) / 60) * 40;
+  const getEventHeightWidget = (segment: OccurrenceSegment) => {
+    const range = getVisibleRangeWidget(segment);
+    const duration = range ? range.end - range.start : 0;
+    return (Math.max(15, duration) / 60) * 40;
   };
 
   /**
@@ -351,7 +438,7 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
   // 상세 일정 보기 상태
   const [selectedDayEvents, setSelectedDayEvents] = useState<{
     date: string;
-    events: CalendarEvent[];
+    events: EventOccurrence[];
   } | null>(null);
 
   /**
@@ -368,58 +455,19 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
     }
   };
 
-  /**
-   * 이벤트 클릭 핸들러: 템플릿의 URL을 열고 파일이 있으면 열어줍니다. attachments 배열이
-   * 있으면 모든 첨부파일을 열고, 이후 URL을 열어줍니다.
-   */
-  const handleEventClick = async (event: CalendarEvent) => {
-    const template = event.template as any;
-    // 먼저 첨부파일들을 모두 연다 (attachments 속성이 있는 경우)
-    if (template.attachments && Array.isArray(template.attachments) && template.attachments.length > 0) {
-      for (const att of template.attachments) {
-        if (att.fileData) {
-          try {
-            const response = await fetch(att.fileData);
-            const blob = await response.blob();
-            const objectUrl = URL.createObjectURL(blob);
-            window.open(objectUrl, '_blank');
-          } catch {
-            window.open(att.fileData, '_blank');
-          }
-        } else if (att.file && att.file instanceof File) {
-          // Fallback: if File object still exists in memory
-          const objectUrl = URL.createObjectURL(att.file);
-          window.open(objectUrl, '_blank');
-        }
-      }
-      return;
-    }
-    // backwards compatibility: single fileData
-    if (template.fileData) {
-      try {
-        const response = await fetch(template.fileData);
-        const blob = await response.blob();
-        const objectUrl = URL.createObjectURL(blob);
-        window.open(objectUrl, '_blank');
-      } catch {
-        window.open(template.fileData, '_blank');
-      }
-      return;
-    }
-    // backwards compatibility: single File object
-    if (template.file && template.file instanceof File) {
-      const objectUrl = URL.createObjectURL(template.file);
-      window.open(objectUrl, '_blank');
-      return;
-    }
-    // 마지막으로 URL들을 열기
-    if (template.urls && template.urls.length > 0) {
-      const validUrls = template.urls.filter((url: string) => url.trim());
-      if (validUrls.length > 0) {
-        validUrls.forEach((url: string) => {
-          window.open(url, '_blank');
-        });
-      }
+  const [contextMenu, setContextMenu] = useState<{ x: number; y: number; event: CalendarEvent } | null>(null);
+
+  const handleEventContextMenu = (e: React.MouseEvent, event: CalendarEvent) => {
+    if (!onSaveAsTemplate) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setContextMenu({ x: e.clientX, y: e.clientY, event });
+  };
+
+  const handleSaveAsTemplate = (target: SaveTemplateTarget) => {
+    if (contextMenu && onSaveAsTemplate) {
+      onSaveAsTemplate(contextMenu.event, target);
+      setContextMenu(null);
     }
   };
 
@@ -446,7 +494,10 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
           top: widgetState.y,
           pointerEvents: 'auto'
         }}
-        onClick={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          setContextMenu(null);
+        }}
       >
         {/* 헤더 */}
         <div
@@ -531,8 +582,13 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
           </button>
         </div>
         {/* 요일 헤더 */}
-        <div className="grid grid-cols-7 border-b border-white/20">
-          {['월', '화', '수', '목', '금', '토', '일'].map(day => (
+        <div
+          className="grid border-b border-white/20"
+          style={{ gridTemplateColumns: `repeat(${visibleDays.length + (widgetViewMode === 'week' ? 1 : 0)}, minmax(0, 1fr))` }}
+        >
+          {/* 주간 그리드의 시간 열 자리 */}
+          {widgetViewMode === 'week' && <div className="border-r border-white/20"></div>}
+          {visibleDays.map(day => DAY_LABELS[day]).map(day => (
             <div
               key={day}
               className="text-center text-black font-medium py-3 border-r border-white/20 last:border-r-0 text-xs"
@@ -545,11 +601,79 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
         {widgetViewMode === 'week' ? (
           <div
             ref={weekGridRef}
-            className="grid grid-cols-8 overflow-y-auto"
-            style={{ maxHeight: '320px', cursor: isVerticalDragging ? 'grabbing' : 'grab' }}
+            className="grid overflow-y-auto"
+            style={{
+              gridTemplateColumns: `repeat(${visibleDays.length + 1}, minmax(0, 1fr))`,
+              maxHeight: '320px',
+              cursor: isVerticalDragging ? 'grabbing' : 'grab'
+            }}
             onMouseDown={handleWeekGridMouseDown}
           >
-            {HOURS.map(hour => (
+            {settings.gridMode === 'periods' ? getPeriodRows(settings).map(row => {
+              if (row.kind === 'blocked') {
+                const { range } = row;
+                return (
+                  <div key={range.id} className="contents">
+                    <div className="border-r border-b border-white/20 px-1 text-[9px] text-black/60 flex items-center justify-center">
+                      {range.name}
+                    </div>
+                    {visibleDays.map(dayIndex => (
+                      <div
+                        key={`${range.id}-${dayIndex}`}
+                        className="border-r border-b border-white/20 h-3"
+                        style={BLOCKED_STYLE_WIDGET}
+                        title={`${range.name} ${range.startTime}-${range.endTime}`}
+                      />
+                    ))}
+                  </div>
+                );
+              }
+              const { period, index: periodIndex } = row;
+              return (
+              <div key={period.id} className="contents">
+                {/* 교시 레이블 셀 */}
+                <div
+                  className="border-r border-b border-white/20 p-1 text-xs text-black flex flex-col items-center justify-center"
+                  style={{ minHeight: '40px' }}
+                >
+                  <span>{getPeriodLabel(period, periodIndex)}</span>
+                  <span className="text-[9px] opacity-60">{period.startTime}</span>
+                </div>
+                {/* 요일별 셀 */}
+                {visibleDays.map(dayIndex => (
+                  <div
+                    key={`${period.id}-${dayIndex}`}
+                    className="border-r border-b border-white/20 p-1 space-y-0.5"
+                    style={{ minHeight: '40px' }}
+                  >
+                    {getEventsForPeriodWidget(dayIndex, periodIndex).map(segment => {
+                      const cellOccurrence = segment.occurrence;
+                      const cellEvent = cellOccurrence.event;
+                      return (
+                        <div
+                          key={`${cellEvent.id}-${cellOccurrence.date}-${segment.date}`}
+                          className={`p-0.5 rounded text-white text-[10px] font-medium truncate cursor-pointer ${
+                            conflictingWidget.has(cellOccurrence) ? 'ring-2 ring-red-500' : ''
+                          }`}
+                          style={{ backgroundColor: getEventColor(cellEvent) }}
+                          title={`${cellEvent.template.name} ${cellOccurrence.startTime}-${cellOccurrence.endTime}${
+                            findPeriodIndex(settings.periods, segment.start, segment.end) === -1 ? ' (교시 밖)' : ''
+                          }${conflictingWidget.has(cellOccurrence) ? ' (시간 겹침)' : ''}`}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            openEventLinks(cellEvent, getOccurrenceUrls(cellOccurrence));
+                          }}
+                          onContextMenu={(e) => handleEventContextMenu(e, cellEvent)}
+                        >
+                          {cellEvent.template.name}
+                        </div>
+                      );
+                    })}
+                  </div>
+                ))}
+              </div>
+              );
+            }) : HOURS.map(hour => (
               <div key={hour} className="contents">
                 {/* 시간 레이블 셀 */}
                 <div
@@ -559,30 +683,51 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
                   {String(hour).padStart(2, '0')}:00
                 </div>
                 {/* 요일별 셀 */}
-                {[0, 1, 2, 3, 4, 5, 6].map(dayIndex => {
-                  const cellEvent = getEventForCellWidget(dayIndex, hour);
-                  const isStart = cellEvent && isEventStartWidget(cellEvent, hour);
-                  const eventHeight = cellEvent ? getEventHeightWidget(cellEvent) : 1;
+                {visibleDays.map(dayIndex => {
+                  const cellSegments = getEventsForCellWidget(dayIndex, hour);
                   return (
                     <div
                       key={`${hour}-${dayIndex}`}
                       className="border-r border-b border-white/20 p-1 relative"
                       style={{ minHeight: '40px' }}
                     >
-                      {cellEvent && isStart && (
+                      {getBlockedBandsWidget(hour).map(({ interval, top, height }) => (
+                        <div
+                          key={`${interval.range.id}-${interval.start}`}
+                          className="absolute left-0 right-0"
+                          style={{ ...BLOCKED_STYLE_WIDGET, top: `${top}px`, height: `${height}px` }}
+                          title={`${interval.range.name} ${interval.range.startTime}-${interval.range.endTime}`}
+                        />
+                      ))}
+                      {cellSegments.map(segment => {
+                        const cellOccurrence = segment.occurrence;
+                        const cellEvent = cellOccurrence.event;
+                        return (
                         <div
-                          className="absolute left-0.5 right-0.5 p-0.5 rounded text-white text-[10px] font-medium truncate cursor-pointer"
-                          style={{ backgroundColor: cellEvent.template.color, height: `${eventHeight * 40 - 2}px`, top: '2px' }}
-                          title={`${cellEvent.template.name} ${cellEvent.startTime}-${cellEvent.endTime}`}
+                          key={`${cellEvent.id}-${cellOccurrence.date}-${segment.date}`}
+                          className={`absolute p-0.5 rounded text-white text-[10px] font-medium truncate cursor-pointer ${
+                            conflictingWidget.has(cellOccurrence) ? 'ring-2 ring-red-500' : ''
+                          }`}
+                          style={{ ...getEventColumnWidget(segment), backgroundColor: getEventColor(cellEvent), height: `${getEventHeightWidget(segment) - 2}px`, top: `${getEventOffsetWidget(segment) + 1}px` }}
+                          title={`${cellEvent.template.name} ${cellOccurrence.startTime}-${cellOccurrence.endTime}${conflictingWidget.has(cellOccurrence) ? ' (시간 겹침)' : ''}`}
                           onClick={(e) => {
                             e.stopPropagation();
-                            handleEventClick(cellEvent);
+                            openEventLinks(cellEvent, getOccurrenceUrls(cellOccurrence));
                           }}
+                          onContextMenu={(e) => handleEventContextMenu(e, cellEvent)}
                         >
                           <div className="truncate">{cellEvent.template.name}</div>
-                          <div className="text-[9px] opacity-75">{cellEvent.startTime} - {cellEvent.endTime}</div>
+                          <div className="text-[9px] opacity-75">{cellOccurrence.startTime} - {getDisplayEndTime(cellOccurrence)}</div>
+                          {onUpdateEvent && !segment.continues && (
+                            <div
+                              className="absolute left-0 right-0 bottom-0 h-1.5 cursor-ns-resize rounded-b hover:bg-white/40"
+                              onMouseDown={(e) => startResize(e, cellOccurrence, 40)}
+                              onClick={(e) => e.stopPropagation()}
+                            />
+                          )}
                         </div>
-                      )}
+                        );
+                      })}
                     </div>
                   );
                 })}
@@ -590,7 +735,7 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
             ))}
           </div>
         ) : (
-          <div className="grid grid-cols-7">
+          <div className="grid" style={{ gridTemplateColumns: `repeat(${visibleDays.length}, minmax(0, 1fr))` }}>
             {calendarDays.map((dayData, index) => {
               const dayEvents = getEventsForDay(dayData);
               const isTodayCell = isToday(dayData);
@@ -650,7 +795,10 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
           >
             <div
               className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-96 overflow-hidden"
-              onClick={(e) => e.stopPropagation()}
+              onClick={(e) => {
+                e.stopPropagation();
+                setContextMenu(null);
+              }}
             >
               <div className="p-4 border-b border-gray-200">
                 <h3 className="text-lg font-semibold text-gray-900">
@@ -659,24 +807,30 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
               </div>
               <div className="p-4 overflow-y-auto max-h-80">
                 <div className="space-y-3">
-                  {selectedDayEvents.events.map(event => (
+                  {selectedDayEvents.events.map(occurrence => (
                     <div
-                      key={event.id}
+                      key={occurrence.event.id}
                       className="p-3 rounded-lg border border-gray-200 hover:shadow-sm transition-shadow cursor-pointer group"
-                      style={{ borderLeftColor: event.template.color, borderLeftWidth: '4px' }}
-                      onClick={() => handleEventClick(event)}
+                      style={{ borderLeftColor: getEventColor(occurrence.event), borderLeftWidth: '4px' }}
+                      onClick={() => openEventLinks(occurrence.event, getOccurrenceUrls(occurrence))}
+                      onContextMenu={(e) => handleEventContextMenu(e, occurrence.event)}
                     >
                       <div className="flex items-start justify-between">
                         <div className="flex-1">
                           <h4 className="font-medium text-gray-900 text-sm">
-                            {event.template.name}
+                            {occurrence.event.template.name}
+                            {occurrence.exception && (
+                              <span className="ml-1 px-1 rounded bg-amber-100 text-amber-700 text-[10px]">
+                                {describeException(occurrence)}
+                              </span>
+                            )}
                           </h4>
                           <p className="text-xs text-gray-600 mt-1">
-                            {event.startTime} - {event.endTime}
+                            {occurrence.startTime} - {occurrence.endTime}
                           </p>
-                          {event.template.description && (
+                          {occurrence.event.template.description && (
                             <p className="text-xs text-gray-500 mt-1">
-                              {event.template.description}
+                              {occurrence.event.template.description}
                             </p>
                           )}
                         </div>
@@ -689,6 +843,43 @@ export default function CalendarWidget({ isOpen, onClose, events, onCreateTempla
           </div>
         )}
       </div>
+      {/* 위젯의 backdrop-blur 안에서는 fixed 위치가 어긋나므로 위젯 밖에 표시합니다. */}
+      {contextMenu && (
+        <div
+          className="fixed bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-[70]"
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          onClick={(e) => e.stopPropagation()}
+        >
+          <button
+            onClick={() => handleSaveAsTemplate('calendar')}
+            className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
+          >
+            <i className="ri-file-add-line w-3 h-3 flex items-center justify-center mr-1.5"></i>
+            템플릿으로 저장
+          </button>
+          <button
+            onClick={() => handleSaveAsTemplate('library')}
+            className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
+          >
+            <i className="ri-book-mark-line w-3 h-3 flex items-center justify-center mr-1.5"></i>
+            라이브러리에 저장
+          </button>
+        </div>
+      )}
+      <div onClick={(e) => e.stopPropagation()}>
+        <Modal isOpen={pendingResize !== null} onClose={() => setPendingResize(null)} title="일정 충돌">
+          {pendingResize && (
+            <ConflictDialog
+              conflicts={pendingResize.conflicts}
+              onPlaceAnyway={() => {
+                pendingResize.apply();
+                setPendingResize(null);
+              }}
+              onCancel={() => setPendingResize(null)}
+            />
+          )}
+        </Modal>
+      </div>
     </div>
   );
 }
\ No newline at end of file
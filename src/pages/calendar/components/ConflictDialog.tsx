@@ -0,0 +1,52 @@
+import type { EventOccurrence } from '../../../types/calendar';
+import { parseDateKey } from '../../../utils/time';
+import { DAY_LABELS } from '../../../utils/calendarSettings';
+import { getEventColor } from '../../../utils/occurrences';
+
+interface ConflictDialogProps {
+  /** Occurrences that collide with the event being placed. */
+  conflicts: EventOccurrence[];
+  onPlaceAnyway: () => void;
+  /** Swap places with the single conflicting event. Hidden when not given. */
+  onSwap?: () => void;
+  onCancel: () => void;
+}
+
+/**
+ * 일정을 배치하거나 옮기거나 크기를 조절할 때 다른 일정과 시간이 겹치면 표시되는 확인 창.
+ * 겹치는 일정 목록을 보여주고 그대로 배치, 서로 자리 바꾸기, 취소 중에서 선택하게 합니다.
+ */
+export default function ConflictDialog({ conflicts, onPlaceAnyway, onSwap, onCancel }: ConflictDialogProps) {
+  return (
+    <div className="space-y-6">
+      <div>
+        <p className="text-sm text-gray-700 mb-3">다음 일정과 시간이 겹칩니다.</p>
+        <ul className="space-y-2">
+          {conflicts.map(occurrence => {
+            const date = parseDateKey(occurrence.date);
+            return (
+              <li
+                key={`${occurrence.event.id}-${occurrence.date}`}
+                className="flex items-center space-x-2 p-2 bg-red-50 border border-red-200 rounded-lg text-sm"
+              >
+                <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: getEventColor(occurrence.event) }}></div>
+                <span className="font-medium text-gray-900 truncate">{occurrence.event.template.name}</span>
+                <span className="text-gray-500 flex-shrink-0">
+                  {date.getMonth() + 1}/{date.getDate()}({DAY_LABELS[occurrence.day]}) {occurrence.startTime} - {occurrence.endTime}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      </div>
+      {/* Action buttons */}
+      <div className="flex space-x-3 pt-4">
+        <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 border rounded-lg border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">취소</button>
+        {onSwap && (
+          <button type="button" onClick={onSwap} className="flex-1 px-4 py-2 border rounded-lg border-blue-300 text-blue-700 hover:bg-blue-50 text-sm">서로 바꾸기</button>
+        )}
+        <button type="button" onClick={onPlaceAnyway} className="flex-1 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 text-sm">그래도 배치</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import type { CalendarEvent } from '../../../types/calendar';
+import { DAY_LABELS } from '../../../utils/calendarSettings';
+
+interface DuplicateEventFormProps {
+  /** The event being duplicated. */
+  event: CalendarEvent | null;
+  /** Day indices that can be picked, in display order. */
+  days: number[];
+  onSubmit: (days: number[]) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 일정을 같은 시간에 다른 요일로 복제하는 폼. 복제할 요일을 여러 개 고를 수 있으며
+ * 원래 일정의 요일은 고를 수 없습니다.
+ */
+export default function DuplicateEventForm({ event, days, onSubmit, onCancel }: DuplicateEventFormProps) {
+  const [selectedDays, setSelectedDays] = useState<number[]>([]);
+
+  useEffect(() => {
+    setSelectedDays([]);
+  }, [event]);
+
+  const toggleDay = (day: number) => {
+    setSelectedDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (selectedDays.length === 0) return;
+    onSubmit(days.filter(day => selectedDays.includes(day)));
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {event && (
+        <p className="text-sm text-gray-700">
+          <span className="font-medium">{event.template.name}</span> 일정을 같은 시간({event.startTime} - {event.endTime})에
+          복제할 요일을 고르세요.
+        </p>
+      )}
+      <div className="flex flex-wrap gap-2">
+        {days.map(day => (
+          <button
+            key={day}
+            type="button"
+            disabled={day === event?.day}
+            onClick={() => toggleDay(day)}
+            className={`px-3 py-1.5 text-sm rounded-lg border cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed ${
+              selectedDays.includes(day) ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {DAY_LABELS[day]}
+          </button>
+        ))}
+      </div>
+      {/* Action buttons */}
+      <div className="flex space-x-3 pt-4">
+        <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 border rounded-lg border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">취소</button>
+        <button
+          type="submit"
+          disabled={selectedDays.length === 0}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+        >
+          복제
+        </button>
+      </div>
+    </form>
+  );
+}
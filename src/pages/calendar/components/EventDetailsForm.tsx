@@ -0,0 +1,180 @@
+import { useState, useEffect, useRef } from 'react';
+import type { Attachment, CalendarEvent } from '../../../types/calendar';
+import { getEventColor } from '../../../utils/occurrences';
+
+interface EventDetailsFormProps {
+  /** The event whose own details are edited. */
+  event: CalendarEvent | null;
+  onSubmit: (details: Pick<CalendarEvent, 'location' | 'notes' | 'extraUrls' | 'attachments'>) => void;
+  onCancel: () => void;
+}
+
+// 일정 하나에 붙일 수 있는 첨부 파일의 총 크기 (20MB)
+const MAX_TOTAL_ATTACHMENT_SIZE = 20 * 1024 * 1024;
+
+/**
+ * 일정 하나에만 쓰는 장소, 메모, 추가 링크와 첨부 파일을 편집하는 폼. 템플릿의 링크와 첨부 파일은
+ * 그대로 두고, 일정을 누르면 템플릿의 것과 함께 열립니다.
+ */
+export default function EventDetailsForm({ event, onSubmit, onCancel }: EventDetailsFormProps) {
+  const [location, setLocation] = useState('');
+  const [notes, setNotes] = useState('');
+  const [urls, setUrls] = useState<string[]>(['']);
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!event) return;
+    setLocation(event.location ?? '');
+    setNotes(event.notes ?? '');
+    setUrls(event.extraUrls && event.extraUrls.length > 0 ? event.extraUrls : ['']);
+    setAttachments(event.attachments ?? []);
+  }, [event]);
+
+  const readFile = (file: File): Promise<Attachment> => {
+    return new Promise(resolve => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        resolve({ file, fileData: reader.result as string, fileName: file.name, fileType: file.type });
+      };
+      reader.readAsDataURL(file);
+    });
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    // 저장된 첨부 파일은 File 객체가 없으므로 data URL 길이로 크기를 어림합니다.
+    let totalSize = attachments.reduce((sum, att) => sum + (att.file?.size ?? ((att.fileData?.length ?? 0) * 3) / 4), 0);
+    const added: Attachment[] = [];
+    for (const file of files) {
+      if (totalSize + file.size > MAX_TOTAL_ATTACHMENT_SIZE) {
+        alert(`총 첨부 파일 크기는 ${MAX_TOTAL_ATTACHMENT_SIZE / (1024 * 1024)}MB를 초과할 수 없습니다.`);
+        break;
+      }
+      added.push(await readFile(file));
+      totalSize += file.size;
+    }
+    if (added.length > 0) {
+      setAttachments(prev => [...prev, ...added]);
+    }
+    e.target.value = '';
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const validUrls = urls.map(url => url.trim()).filter(Boolean);
+    // 비운 항목은 undefined로 저장해 일정에 빈 값이 남지 않도록 합니다.
+    onSubmit({
+      location: location.trim() || undefined,
+      notes: notes.trim() || undefined,
+      extraUrls: validUrls.length > 0 ? validUrls : undefined,
+      attachments:
+        attachments.length > 0
+          ? attachments.map(({ fileData, fileName, fileType }) => ({ fileData, fileName, fileType }))
+          : undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {event && (
+        <p className="text-sm text-gray-700">
+          <span className="inline-block w-3 h-3 rounded-full mr-1.5 align-middle" style={{ backgroundColor: getEventColor(event) }}></span>
+          <span className="font-medium">{event.template.name}</span> {event.startTime} - {event.endTime}
+        </p>
+      )}
+      {/* Location */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">장소</label>
+        <input
+          type="text"
+          value={location}
+          onChange={e => setLocation(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          placeholder="예: 301호"
+        />
+      </div>
+      {/* Notes */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">메모</label>
+        <textarea
+          value={notes}
+          onChange={e => setNotes(e.target.value)}
+          rows={3}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm resize-none"
+          placeholder="이 일정에만 남길 메모"
+        />
+      </div>
+      {/* Extra URLs */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">추가 링크</label>
+        <div className="space-y-2">
+          {urls.map((url, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="url"
+                value={url}
+                onChange={e => setUrls(prev => prev.map((u, i) => (i === index ? e.target.value : u)))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                placeholder="https://example.com"
+              />
+              {urls.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setUrls(prev => prev.filter((_, i) => i !== index))}
+                  className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-red-500 cursor-pointer"
+                >
+                  <i className="ri-close-line w-4 h-4 flex items-center justify-center"></i>
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setUrls(prev => [...prev, ''])}
+            className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            <i className="ri-add-line w-4 h-4 flex items-center justify-center"></i>
+            <span className="text-sm">URL 추가</span>
+          </button>
+        </div>
+        <p className="text-xs text-gray-400 mt-1">템플릿의 링크와 함께 열립니다.</p>
+      </div>
+      {/* Attachments */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">추가 첨부 파일</label>
+        <input type="file" onChange={handleFileChange} className="hidden" ref={fileInputRef} multiple />
+        <div className="space-y-2">
+          {attachments.map((att, index) => (
+            <div key={index} className="flex items-center justify-between rounded-md border border-gray-200 p-2">
+              <div className="flex items-center space-x-2 min-w-0">
+                <i className="ri-file-line w-4 h-4 flex items-center justify-center text-blue-600"></i>
+                <span className="text-sm text-gray-900 truncate">{att.fileName}</span>
+              </div>
+              <button
+                type="button"
+                onClick={() => setAttachments(prev => prev.filter((_, i) => i !== index))}
+                className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-red-500 cursor-pointer"
+              >
+                <i className="ri-close-line w-4 h-4 flex items-center justify-center"></i>
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            <i className="ri-attachment-2 w-4 h-4 flex items-center justify-center"></i>
+            <span className="text-sm">파일 추가</span>
+          </button>
+        </div>
+      </div>
+      {/* Action buttons */}
+      <div className="flex space-x-3 pt-4">
+        <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 border rounded-lg border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">취소</button>
+        <button type="submit" className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm">저장</button>
+      </div>
+    </form>
+  );
+}
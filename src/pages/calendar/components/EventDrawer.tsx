@@ -0,0 +1,355 @@
+import { useState, useEffect } from 'react';
+import type { CalendarEvent, EventOccurrence, Template } from '../../../types/calendar';
+import { DAY_LABELS } from '../../../utils/calendarSettings';
+import { getDayIndex, isOvernight, parseDateKey } from '../../../utils/time';
+import { describeException, describeRecurrence, getEventColor, getOccurrenceUrls } from '../../../utils/occurrences';
+import { getEventAttachments, getEventUrls, openAttachment } from '../../../utils/eventLinks';
+import { formatTags } from '../../../utils/tags';
+import { getSnapshotStatus } from '../../../utils/templateSync';
+import type { SaveTemplateTarget } from '../../../utils/templateLibrary';
+
+/** Fields of an event that can be edited directly in the drawer. */
+export type EventDrawerUpdates = Pick<CalendarEvent, 'day' | 'date' | 'startTime' | 'endTime' | 'color'>;
+
+interface EventDrawerProps {
+  /** The occurrence that was opened. Edits apply to the whole event. */
+  occurrence: EventOccurrence;
+  /** Templates of the calendar, used to flag a stale or orphaned snapshot. */
+  templates: Template[];
+  /** Day indices that can be picked for weekly events, in display order. */
+  days: number[];
+  onSave: (updates: EventDrawerUpdates) => void;
+  onEditTemplate: () => void;
+  onEditDetails: () => void;
+  onDuplicate: () => void;
+  onCopy: () => void;
+  onEditRecurrence: () => void;
+  onEditOccurrence: () => void;
+  onCancelOccurrence: () => void;
+  onRestoreOccurrence: () => void;
+  onSaveAsTemplate: (target: SaveTemplateTarget) => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1.5 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-xs';
+
+const actionClass =
+  'flex items-center px-2 py-1.5 text-xs text-gray-700 border border-gray-200 rounded-md hover:bg-gray-50 cursor-pointer whitespace-nowrap';
+
+/**
+ * 주간 보기에서 일정을 우클릭하면 열리는 상세 서랍. 시간, 템플릿, 링크, 첨부 파일, 메모와 반복 규칙을
+ * 보여주고, 요일(날짜)과 시작/종료 시간, 일정 색을 바로 고칠 수 있습니다. 반복 일정에서 고친 시간은
+ * 모든 회차에 적용되며, 한 번만 바꾸려면 '이번만 변경'을 사용합니다.
+ */
+export default function EventDrawer({
+  occurrence,
+  templates,
+  days,
+  onSave,
+  onEditTemplate,
+  onEditDetails,
+  onDuplicate,
+  onCopy,
+  onEditRecurrence,
+  onEditOccurrence,
+  onCancelOccurrence,
+  onRestoreOccurrence,
+  onSaveAsTemplate,
+  onDelete,
+  onClose
+}: EventDrawerProps) {
+  const { event } = occurrence;
+  const [day, setDay] = useState(event.day);
+  const [date, setDate] = useState(event.date ?? '');
+  const [startTime, setStartTime] = useState(event.startTime);
+  const [endTime, setEndTime] = useState(event.endTime);
+  const [color, setColor] = useState(getEventColor(event));
+
+  useEffect(() => {
+    setDay(event.day);
+    setDate(event.date ?? '');
+    setStartTime(event.startTime);
+    setEndTime(event.endTime);
+    setColor(getEventColor(event));
+  }, [event]);
+
+  const isChanged =
+    (event.date ? date !== event.date : day !== event.day) ||
+    startTime !== event.startTime ||
+    endTime !== event.endTime ||
+    color !== getEventColor(event);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isChanged || !startTime || !endTime || (event.date && !date)) return;
+    onSave({
+      // 날짜가 지정된 일정은 날짜에서 요일을 정합니다.
+      day: event.date ? getDayIndex(parseDateKey(date)) : day,
+      date: event.date ? date : undefined,
+      startTime,
+      endTime,
+      // 템플릿 색과 같으면 따로 저장하지 않아 템플릿 색을 계속 따르도록 합니다.
+      color: color !== event.template.color ? color : undefined
+    });
+  };
+
+  const occurrenceUrls = getOccurrenceUrls(occurrence).map(url => url.trim());
+  const urls = getEventUrls(event, occurrenceUrls);
+  const attachments = getEventAttachments(event);
+  const templateAttachmentCount = event.template.attachments?.length ?? 0;
+  const snapshotStatus = getSnapshotStatus(event, templates);
+  const occurrenceDate = parseDateKey(occurrence.date);
+
+  return (
+    <div
+      className="fixed top-0 right-0 h-full w-80 bg-white border-l border-gray-200 shadow-xl z-40 flex flex-col"
+      onClick={e => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-start justify-between p-4 border-b border-gray-100">
+        <div className="min-w-0">
+          <h3 className="flex items-center text-sm font-semibold text-gray-900">
+            <span className="w-3 h-3 rounded-full mr-1.5 flex-shrink-0" style={{ backgroundColor: getEventColor(event) }}></span>
+            <span className={`truncate ${occurrence.cancelled ? 'line-through' : ''}`}>{event.template.name}</span>
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {occurrenceDate.getMonth() + 1}/{occurrenceDate.getDate()}({DAY_LABELS[occurrence.day]}) {occurrence.startTime} -{' '}
+            {occurrence.endTime}
+            {isOvernight(occurrence.startTime, occurrence.endTime) && ' (다음날)'}
+          </p>
+        </div>
+        <button onClick={onClose} className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-gray-600 cursor-pointer" title="닫기">
+          <i className="ri-close-line"></i>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        {/* Time and colour */}
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <h4 className="text-xs font-semibold text-gray-500">시간</h4>
+          {event.date ? (
+            <input type="date" value={date} onChange={e => setDate(e.target.value)} className={inputClass} required />
+          ) : (
+            <select value={day} onChange={e => setDay(parseInt(e.target.value, 10))} className={inputClass}>
+              {days.map(d => (
+                <option key={d} value={d}>
+                  매주 {DAY_LABELS[d]}요일
+                </option>
+              ))}
+            </select>
+          )}
+          <div className="flex items-center space-x-2">
+            <input type="time" value={startTime} onChange={e => setStartTime(e.target.value)} className={inputClass} required />
+            <span className="text-gray-400">-</span>
+            <input type="time" value={endTime} onChange={e => setEndTime(e.target.value)} className={inputClass} required />
+          </div>
+          <div className="flex items-center space-x-2">
+            <input
+              type="color"
+              value={color}
+              onChange={e => setColor(e.target.value)}
+              className="w-8 h-8 border border-gray-300 rounded cursor-pointer"
+              title="이 일정의 색"
+            />
+            <span className="flex-1 text-xs text-gray-500">{color !== event.template.color ? '일정 색' : '템플릿 색'}</span>
+            {color !== event.template.color && (
+              <button
+                type="button"
+                onClick={() => setColor(event.template.color)}
+                className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+              >
+                템플릿 색으로
+              </button>
+            )}
+          </div>
+          {!event.date && <p className="text-[10px] text-gray-400">반복 일정의 모든 회차에 적용됩니다.</p>}
+          <button
+            type="submit"
+            disabled={!isChanged}
+            className="w-full px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-xs disabled:opacity-50"
+          >
+            적용
+          </button>
+        </form>
+
+        {/* Recurrence */}
+        {!event.date && (
+          <div className="space-y-2">
+            <h4 className="text-xs font-semibold text-gray-500">반복</h4>
+            <p className="text-xs text-gray-700">{describeRecurrence(event.recurrence) || '매주'}</p>
+            {occurrence.exception && (
+              <p className="text-xs text-amber-700">
+                <i className="ri-error-warning-line mr-0.5"></i>
+                {describeException(occurrence)}
+              </p>
+            )}
+            <div className="flex flex-wrap gap-1">
+              <button onClick={onEditRecurrence} className={actionClass}>
+                <i className="ri-repeat-line mr-1"></i>반복 설정
+              </button>
+              {!occurrence.cancelled && (
+                <>
+                  <button onClick={onEditOccurrence} className={actionClass}>
+                    <i className="ri-calendar-todo-line mr-1"></i>이번만 변경
+                  </button>
+                  <button onClick={onCancelOccurrence} className={actionClass}>
+                    <i className="ri-calendar-close-line mr-1"></i>이번만 취소
+                  </button>
+                </>
+              )}
+              {occurrence.exception && (
+                <button onClick={onRestoreOccurrence} className={actionClass}>
+                  <i className="ri-arrow-go-back-line mr-1"></i>원래대로
+                </button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Template */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-semibold text-gray-500">템플릿</h4>
+            <button onClick={onEditTemplate} className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer">
+              템플릿 수정
+            </button>
+          </div>
+          <p className="text-xs text-gray-900">
+            {event.template.name}
+            {snapshotStatus === 'orphaned' && (
+              <span className="ml-1 px-1 rounded bg-gray-100 text-gray-600 text-[10px]">
+                <i className="ri-link-unlink mr-0.5"></i>템플릿 삭제됨
+              </span>
+            )}
+            {snapshotStatus === 'outdated' && (
+              <span className="ml-1 px-1 rounded bg-gray-100 text-gray-600 text-[10px]">
+                <i className="ri-refresh-line mr-0.5"></i>템플릿 변경됨
+              </span>
+            )}
+          </p>
+          {event.template.description && <p className="text-xs text-gray-500">{event.template.description}</p>}
+          {event.template.tags && event.template.tags.length > 0 && (
+            <p className="text-[10px] text-gray-500">{formatTags(event.template.tags)}</p>
+          )}
+        </div>
+
+        {/* Location and notes */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-semibold text-gray-500">장소·메모</h4>
+            <button onClick={onEditDetails} className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer">
+              편집
+            </button>
+          </div>
+          {event.location || event.notes ? (
+            <>
+              {event.location && (
+                <p className="text-xs text-gray-700">
+                  <i className="ri-map-pin-line mr-0.5"></i>
+                  {event.location}
+                </p>
+              )}
+              {event.notes && <p className="text-xs text-gray-700 whitespace-pre-line">{event.notes}</p>}
+            </>
+          ) : (
+            <p className="text-xs text-gray-400">없음</p>
+          )}
+        </div>
+
+        {/* Links */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-semibold text-gray-500">링크</h4>
+            {urls.length > 1 && (
+              <button
+                onClick={() => urls.forEach(url => window.open(url, '_blank'))}
+                className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+              >
+                모두 열기
+              </button>
+            )}
+          </div>
+          {urls.length === 0 ? (
+            <p className="text-xs text-gray-400">없음</p>
+          ) : (
+            urls.map(url => (
+              <a
+                key={url}
+                href={url}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center text-xs text-blue-600 hover:underline"
+              >
+                <i className="ri-external-link-line mr-1 flex-shrink-0"></i>
+                <span className="truncate">{url}</span>
+                {!occurrenceUrls.includes(url) && <span className="ml-1 text-[10px] text-gray-400 flex-shrink-0">이 일정</span>}
+              </a>
+            ))
+          )}
+        </div>
+
+        {/* Attachments */}
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <h4 className="text-xs font-semibold text-gray-500">첨부 파일</h4>
+            {attachments.length > 1 && (
+              <button
+                onClick={async () => {
+                  for (const attachment of attachments) {
+                    await openAttachment(attachment);
+                  }
+                }}
+                className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+              >
+                모두 열기
+              </button>
+            )}
+          </div>
+          {attachments.length === 0 ? (
+            <p className="text-xs text-gray-400">없음</p>
+          ) : (
+            attachments.map((attachment, index) => (
+              <button
+                key={index}
+                onClick={() => openAttachment(attachment)}
+                className="w-full flex items-center text-left text-xs text-gray-700 hover:text-blue-600 cursor-pointer"
+              >
+                <i className="ri-file-line mr-1 flex-shrink-0"></i>
+                <span className="truncate">{attachment.fileName}</span>
+                {index >= templateAttachmentCount && (
+                  <span className="ml-1 text-[10px] text-gray-400 flex-shrink-0">이 일정</span>
+                )}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Actions */}
+      <div className="p-4 border-t border-gray-100 space-y-2">
+        <div className="flex flex-wrap gap-1">
+          <button onClick={onDuplicate} className={actionClass}>
+            <i className="ri-file-copy-2-line mr-1"></i>다른 요일에 복제
+          </button>
+          <button onClick={onCopy} className={actionClass}>
+            <i className="ri-file-copy-line mr-1"></i>복사
+          </button>
+          <button onClick={() => onSaveAsTemplate('calendar')} className={actionClass}>
+            <i className="ri-file-add-line mr-1"></i>템플릿으로 저장
+          </button>
+          <button onClick={() => onSaveAsTemplate('library')} className={actionClass}>
+            <i className="ri-book-mark-line mr-1"></i>라이브러리에 저장
+          </button>
+        </div>
+        <button
+          onClick={onDelete}
+          className="w-full flex items-center justify-center px-3 py-1.5 text-xs text-red-600 border border-red-200 rounded-md hover:bg-red-50 cursor-pointer"
+        >
+          <i className="ri-delete-bin-line mr-1"></i>일정 삭제
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import type { CalendarEvent, Template } from '../../../types/calendar';
+import { DAY_LABELS } from '../../../utils/calendarSettings';
+import { parseDateKey } from '../../../utils/time';
+import { findOutdatedEvents, groupOrphanedEvents } from '../../../utils/templateSync';
+
+interface MaintenancePanelProps {
+  templates: Template[];
+  events: CalendarEvent[];
+  /** Point the events at another template. Their snapshots are kept until synced. */
+  onRelink: (eventIds: string[], template: Template) => void;
+  /** Re-create a template from the snapshot of the first event and link the events to it. */
+  onRecreate: (events: CalendarEvent[]) => void;
+  onDeleteEvents: (eventIds: string[]) => void;
+  /** Open the sync flow of a template with outdated events. */
+  onSyncTemplate: (template: Template) => void;
+}
+
+/** 일정의 요일/날짜와 시간을 짧게 표시합니다. */
+function describeWhen(event: CalendarEvent): string {
+  const when = event.date
+    ? `${parseDateKey(event.date).getMonth() + 1}/${parseDateKey(event.date).getDate()}`
+    : DAY_LABELS[event.day];
+  return `${when} ${event.startTime}`;
+}
+
+/**
+ * 일정 점검 패널. 템플릿이 삭제된 일정은 다른 템플릿에 다시 연결하거나, 일정에 남은 사본으로
+ * 템플릿을 다시 만들거나, 삭제할 수 있습니다. 템플릿이 바뀐 뒤 그대로인 일정은 템플릿별로 모아
+ * 변경 내용을 반영할 수 있게 합니다.
+ */
+export default function MaintenancePanel({
+  templates,
+  events,
+  onRelink,
+  onRecreate,
+  onDeleteEvents,
+  onSyncTemplate
+}: MaintenancePanelProps) {
+  const orphanGroups = groupOrphanedEvents(events, templates);
+  const outdatedByTemplate = templates
+    .map(template => ({ template, count: findOutdatedEvents(events, template).length }))
+    .filter(({ count }) => count > 0);
+
+  if (orphanGroups.length === 0 && outdatedByTemplate.length === 0) {
+    return (
+      <div className="text-center py-6 text-gray-500">
+        <i className="ri-checkbox-circle-line w-8 h-8 flex items-center justify-center mx-auto mb-2 text-green-400"></i>
+        <p className="text-sm">모든 일정이 템플릿과 일치합니다</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {orphanGroups.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 mb-2">
+            <i className="ri-link-unlink mr-1"></i>
+            템플릿이 삭제된 일정
+          </h4>
+          <div className="space-y-2">
+            {orphanGroups.map(group => {
+              const snapshot = group[0].template;
+              const ids = group.map(event => event.id);
+              return (
+                <div key={group[0].templateId} className="p-3 border border-gray-200 rounded-lg">
+                  <div className="flex items-center space-x-2 text-sm">
+                    <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: snapshot.color }}></span>
+                    <span className="font-medium text-gray-900 truncate">{snapshot.name}</span>
+                    <span className="text-xs text-gray-500 flex-shrink-0">일정 {group.length}개</span>
+                  </div>
+                  <p className="text-[10px] text-gray-500 mt-1 truncate">{group.map(describeWhen).join(', ')}</p>
+                  <div className="flex flex-wrap items-center gap-2 mt-2">
+                    {templates.length > 0 && (
+                      <select
+                        value=""
+                        onChange={e => {
+                          const template = templates.find(t => t.id === e.target.value);
+                          if (template) onRelink(ids, template);
+                        }}
+                        className="px-2 py-1 pr-6 border border-gray-300 rounded-md text-xs text-gray-700"
+                      >
+                        <option value="" disabled>
+                          다른 템플릿에 연결
+                        </option>
+                        {templates.map(template => (
+                          <option key={template.id} value={template.id}>
+                            {template.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      onClick={() => onRecreate(group)}
+                      className="px-2 py-1 text-xs border border-blue-300 rounded-md text-blue-700 hover:bg-blue-50 cursor-pointer"
+                    >
+                      <i className="ri-add-box-line mr-1"></i>
+                      템플릿 다시 만들기
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (window.confirm(`${snapshot.name} 일정 ${group.length}개를 삭제하시겠습니까?`)) onDeleteEvents(ids);
+                      }}
+                      className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded-md cursor-pointer"
+                    >
+                      <i className="ri-delete-bin-line mr-1"></i>
+                      일정 삭제
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+      {outdatedByTemplate.length > 0 && (
+        <div>
+          <h4 className="text-xs font-semibold text-gray-500 mb-2">
+            <i className="ri-refresh-line mr-1"></i>
+            템플릿과 내용이 다른 일정
+          </h4>
+          <div className="space-y-2">
+            {outdatedByTemplate.map(({ template, count }) => (
+              <div key={template.id} className="flex items-center space-x-2 p-3 border border-gray-200 rounded-lg text-sm">
+                <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: template.color }}></span>
+                <span className="flex-1 font-medium text-gray-900 truncate">{template.name}</span>
+                <span className="text-xs text-gray-500 flex-shrink-0">일정 {count}개</span>
+                <button
+                  onClick={() => onSyncTemplate(template)}
+                  className="px-2 py-1 text-xs border border-blue-300 rounded-md text-blue-700 hover:bg-blue-50 cursor-pointer flex-shrink-0"
+                >
+                  비교 후 반영
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,33 +1,96 @@
-import { useState } from 'react';
-import { CalendarEvent, Template } from '../../../types/calendar';
+import { useState, useEffect, useMemo } from 'react';
+import type { CalendarEvent, CalendarSettings, EventOccurrence, Template } from '../../../types/calendar';
 import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { addDays, addMinutes, getDayIndex, toDateKey } from '../../../utils/time';
+import {
+  DAY_LABELS,
+  findBlockedOverlaps,
+  formatBlockedWarning,
+  getVisibleDays
+} from '../../../utils/calendarSettings';
+import {
+  describeException,
+  describeRecurrence,
+  expandOccurrences,
+  findConflicts,
+  getConflictingOccurrences,
+  getEventColor,
+  getOccurrenceUrls,
+  getOccurrencesForDate
+} from '../../../utils/occurrences';
+import { collectTags, isHiddenByTags } from '../../../utils/tags';
+import { getSnapshotStatuses } from '../../../utils/templateSync';
+import { openEventLinks } from '../../../utils/eventLinks';
+import type { SaveTemplateTarget } from '../../../utils/templateLibrary';
+import Modal from '../../../components/base/Modal';
+import ConflictDialog from './ConflictDialog';
+import TagLegend from './TagLegend';
 
 interface MonthViewProps {
   events: CalendarEvent[];
+  /** Templates of the calendar, used to flag events whose snapshot is stale or orphaned. */
+  templates: Template[];
   selectedTemplate: Template | null;
   onAddEvent: (event: Omit<CalendarEvent, 'id'>) => void;
   onDeleteEvent: (eventId: string) => void;
   onEditTemplate: (template: Template) => void;
+  /** Save the event, with its own links and files, as a new template in the calendar or the library. */
+  onSaveAsTemplate: (event: CalendarEvent, target: SaveTemplateTarget) => void;
+  /** Weekend columns, week start and blocked ranges of the selected calendar. */
+  settings: CalendarSettings;
+  /** IDs of the events matching the current search, or null when not searching. */
+  matchedEventIds?: Set<string> | null;
+  /** Count and show only the events that match the search. */
+  dimUnmatched?: boolean;
+  /** Show the month containing this date whenever a new one is passed in. */
+  focusDate?: Date;
+  /** Tags switched off in the legend; events with only these tags are not counted or listed. */
+  hiddenTags?: Set<string>;
+  onToggleTag?: (tag: string) => void;
 }
 
-const DAYS = ['월','화','수','목','금','토','일'];
 const MONTHS = ['1월','2월','3월','4월','5월','6월','7월','8월','9월','10월','11월','12월'];
 
 /**
  * 월간 보기 컴포넌트. 한 달을 표시하고 각 날짜에 있는 이벤트 수를 보여줍니다.
  * 주간 보기와 글자 크기 비율을 맞추기 위해 상세 팝업과 일정 수 표시 영역의 텍스트 크기를 조정했습니다.
  */
-export default function MonthView({ events, selectedTemplate, onAddEvent, onDeleteEvent, onEditTemplate }: MonthViewProps) {
+export default function MonthView({
+  events,
+  templates,
+  selectedTemplate,
+  onAddEvent,
+  onDeleteEvent,
+  onEditTemplate,
+  onSaveAsTemplate,
+  settings,
+  matchedEventIds = null,
+  dimUnmatched = false,
+  focusDate,
+  hiddenTags = new Set(),
+  onToggleTag = () => {}
+}: MonthViewProps) {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number; event: CalendarEvent; } | null>(null);
-  const [selectedDayEvents, setSelectedDayEvents] = useState<{ date: string; events: CalendarEvent[]; } | null>(null);
+  // 템플릿이 삭제되었거나 바뀐 일정. 날짜 칸마다 다시 비교하지 않도록 미리 구해 둡니다.
+  const snapshotStatuses = useMemo(() => getSnapshotStatuses(events, templates), [events, templates]);
+  const [selectedDayEvents, setSelectedDayEvents] = useState<{ date: string; events: EventOccurrence[]; } | null>(null);
+  // 다른 일정과 겹쳐 확인을 기다리는 새 일정
+  const [pendingConflict, setPendingConflict] = useState<{ conflicts: EventOccurrence[]; apply: () => void } | null>(null);
+
+  // 검색 결과에서 날짜 지정 일정을 고르면 그 달로 이동합니다.
+  useEffect(() => {
+    if (focusDate) setCurrentDate(focusDate);
+  }, [focusDate]);
 
   const year = currentDate.getFullYear();
   const month = currentDate.getMonth();
   const firstDay = new Date(year, month, 1);
   const lastDay = new Date(year, month + 1, 0);
-  const firstDayOfWeek = (firstDay.getDay() + 6) % 7;
-  const calendarDays: any[] = [];
+  const visibleDays = getVisibleDays(settings);
+  // 설정된 주의 시작 요일부터 몇 칸 떨어져 있는지
+  const firstDayOfWeek = (getDayIndex(firstDay) - settings.weekStartsOn + 7) % 7;
+  let calendarDays: any[] = [];
   const prevMonth = new Date(year, month, 0);
   for (let i = firstDayOfWeek - 1; i >= 0; i--) {
     calendarDays.push({
@@ -54,6 +117,17 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
       fullDate: new Date(year, month + 1, date)
     });
   }
+  if (settings.hideWeekends) {
+    calendarDays = calendarDays.filter(dayData => getDayIndex(dayData.fullDate) < 5);
+  }
+  // 다른 일정과 시간이 겹치는 회차. 전날 밤에 시작한 일정과의 겹침도 찾도록 그리드 첫날의 전날부터 펼칩니다.
+  const conflictingKeys = new Set(
+    [...getConflictingOccurrences(
+      expandOccurrences(events, addDays(calendarDays[0].fullDate, -1), calendarDays[calendarDays.length - 1].fullDate)
+    )].map(occurrence => `${occurrence.event.id}-${occurrence.date}`)
+  );
+  const isConflicting = (occurrence: EventOccurrence) => conflictingKeys.has(`${occurrence.event.id}-${occurrence.date}`);
+  const gridColumns = { gridTemplateColumns: `repeat(${visibleDays.length}, minmax(0, 1fr))` };
 
   const goToPrevMonth = () => setCurrentDate(new Date(year, month - 1, 1));
   const goToNextMonth = () => setCurrentDate(new Date(year, month + 1, 1));
@@ -61,6 +135,7 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
 
   /**
    * 셀 클릭 핸들러: 일정이 있는 경우 상세 팝업을, 없고 템플릿이 선택된 경우 새 일정을 생성합니다.
+   * 월간 보기에서는 특정 날짜를 고른 것이므로 해당 날짜에만 있는 일회성 일정으로 생성합니다.
    */
   const handleCellClick = (e: React.MouseEvent, dayData: any) => {
     if (!dayData.isCurrentMonth) return;
@@ -75,68 +150,30 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
     }
     if (selectedTemplate) {
       const dayOfWeek = (dayData.fullDate.getDay() + 6) % 7;
-      onAddEvent({
-        templateId: selectedTemplate.id,
-        template: selectedTemplate,
-        startTime: '09:00',
-        endTime: `${9 + Math.floor(selectedTemplate.duration / 60)}:${(selectedTemplate.duration % 60).toString().padStart(2, '0')}`,
-        day: dayOfWeek
-      });
-    }
-  };
-
-  /**
-   * 이벤트 클릭 핸들러: 템플릿에 연결된 URL과 첨부 파일을 열어줍니다.
-   */
-  const handleEventClick = async (event: CalendarEvent) => {
-    const template = event.template;
-    // 열 첨부파일 먼저
-    if (template.attachments && template.attachments.length > 0) {
-      for (const att of template.attachments) {
-        if (att.fileData) {
-          try {
-            const response = await fetch(att.fileData);
-            const blob = await response.blob();
-            const objectUrl = URL.createObjectURL(blob);
-            window.open(objectUrl, '_blank');
-          } catch {
-            window.open(att.fileData, '_blank');
-          }
-        } else if ((att as any).file && (att as any).file instanceof File) {
-          const objectUrl = URL.createObjectURL((att as any).file);
-          window.open(objectUrl, '_blank');
-        }
-      }
-    } else if ((template as any).fileData) {
-      // backwards compatibility
-      try {
-        const response = await fetch((template as any).fileData);
-        const blob = await response.blob();
-        const objectUrl = URL.createObjectURL(blob);
-        window.open(objectUrl, '_blank');
-      } catch {
-        window.open((template as any).fileData, '_blank');
-      }
-      return;
-    } else if ((template as any).file && (template as any).file instanceof File) {
-      const objectUrl = URL.createObjectURL((template as any).file);
-      window.open(objectUrl, '_blank');
-      return;
-    }
-    // 마지막으로 URL
-    if (template.urls && template.urls.length > 0) {
-      const validUrls = template.urls.filter(url => url.trim());
-      if (validUrls.length > 0) {
-        validUrls.forEach(url => {
-          window.open(url, '_blank');
+      const endTime = addMinutes('09:00', selectedTemplate.duration);
+      const blocked = findBlockedOverlaps(settings.blockedRanges, '09:00', endTime);
+      if (blocked.length > 0 && !window.confirm(formatBlockedWarning(blocked))) return;
+      const apply = () =>
+        onAddEvent({
+          templateId: selectedTemplate.id,
+          template: selectedTemplate,
+          startTime: '09:00',
+          endTime,
+          day: dayOfWeek,
+          date: toDateKey(dayData.fullDate)
         });
-        return;
+      // 주간 보기와 같이 다른 일정과 겹치면 먼저 확인을 받습니다.
+      const conflicts = findConflicts(events, dayData.fullDate, '09:00', endTime);
+      if (conflicts.length === 0) {
+        apply();
+      } else {
+        setPendingConflict({ conflicts, apply });
       }
     }
   };
 
   /**
-   * 우클릭 컨텍스트 메뉴 핸들러
+   * 우클릭 컨텍스트 메뉴 핸들러. 상세 팝업의 일정을 우클릭하면 열립니다.
    */
   const handleEventContextMenu = (e: React.MouseEvent, event: CalendarEvent) => {
     e.preventDefault();
@@ -149,9 +186,24 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
       setContextMenu(null);
     }
   };
+  const handleSaveAsTemplate = (target: SaveTemplateTarget) => {
+    if (contextMenu) {
+      onSaveAsTemplate(contextMenu.event, target);
+      setContextMenu(null);
+    }
+  };
+  /** 일정을 지우고 상세 팝업 목록에서도 뺍니다. 남은 일정이 없으면 팝업을 닫습니다. */
+  const deleteEvent = (eventId: string) => {
+    onDeleteEvent(eventId);
+    setSelectedDayEvents(prev => {
+      if (!prev) return null;
+      const remaining = prev.events.filter(o => o.event.id !== eventId);
+      return remaining.length > 0 ? { ...prev, events: remaining } : null;
+    });
+  };
   const handleDeleteEventFromContext = () => {
     if (contextMenu) {
-      onDeleteEvent(contextMenu.event.id);
+      deleteEvent(contextMenu.event.id);
       setContextMenu(null);
     }
   };
@@ -160,12 +212,14 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
     setSelectedDayEvents(null);
   };
   /**
-   * 특정 날짜에 해당하는 이벤트 목록 반환
+   * 특정 날짜에 해당하는 일정(반복 규칙을 펼친 발생 목록) 반환. 취소된 회차도
+   * 상세 팝업에서 보여주기 위해 포함합니다.
    */
-  const getEventsForDay = (dayData: any) => {
+  const getEventsForDay = (dayData: any): EventOccurrence[] => {
     if (!dayData.isCurrentMonth) return [];
-    const dayOfWeek = (dayData.fullDate.getDay() + 6) % 7;
-    return events.filter(event => event.day === dayOfWeek);
+    return getOccurrencesForDate(events, dayData.fullDate, { includeCancelled: true }).filter(
+      occurrence => !isHiddenByTags(occurrence.event.template.tags, hiddenTags)
+    );
   };
   const isToday = (dayData: any) => {
     const today = new Date();
@@ -206,10 +260,11 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
           </button>
         </div>
       </div>
+      <TagLegend tags={collectTags(events.map(event => event.template))} hiddenTags={hiddenTags} onToggleTag={onToggleTag} />
       {/* 요일 헤더 */}
       {/* 패딩과 글자 크기를 줄여 주간 보기와 유사한 비율로 조정 */}
-      <div className="grid grid-cols-7 border-b border-gray-200">
-        {DAYS.map(day => (
+      <div className="grid border-b border-gray-200" style={gridColumns}>
+        {visibleDays.map(day => DAY_LABELS[day]).map(day => (
           <div
             key={day}
             className="p-2 text-center font-medium text-gray-900 border-r border-gray-200 last:border-r-0 text-xs"
@@ -219,9 +274,24 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
         ))}
       </div>
       {/* 달력 그리드 */}
-      <div className="grid grid-cols-7" style={{ height: 'calc(100vh - 300px)' }}>
+      <div className="grid" style={{ ...gridColumns, height: 'calc(100vh - 300px)' }}>
         {calendarDays.map((dayData, index) => {
           const dayEvents = getEventsForDay(dayData);
+          const activeCount = dayEvents.filter(o => !o.cancelled).length;
+          const hasExceptions = dayEvents.some(o => o.exception);
+          const hasStaleSnapshots = dayEvents.some(o => snapshotStatuses.has(o.event.id));
+          const hasConflicts = dayEvents.some(isConflicting);
+          // 검색 중이면 일치하는 일정이 있는 날을 강조하고, 필터 모드에서는 일치하는 일정만 셉니다.
+          const matchCount = matchedEventIds
+            ? dayEvents.filter(o => !o.cancelled && matchedEventIds.has(o.event.id)).length
+            : 0;
+          const searchClass = !matchedEventIds
+            ? ''
+            : matchCount > 0
+              ? 'ring-2 ring-offset-1 ring-yellow-400'
+              : dimUnmatched
+                ? 'opacity-20'
+                : '';
           const isTodayCell = isToday(dayData);
           // Determine background classes: grey for non-current month, otherwise white with hover tint depending on events/selection
           let bgClass = '';
@@ -266,8 +336,28 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
                 >
                   {dayEvents.length > 0 && dayData.isCurrentMonth && (
                     <div className="text-center cursor-pointer hover:scale-110 transition-transform">
-                      <div className="w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-[9px] font-medium mb-0.5 hover:bg-blue-600">
-                        {dayEvents.length}
+                      <div
+                        className={`relative w-6 h-6 bg-blue-500 text-white rounded-full flex items-center justify-center text-[9px] font-medium mb-0.5 hover:bg-blue-600 ${searchClass}`}
+                      >
+                        {matchedEventIds && dimUnmatched ? matchCount : activeCount}
+                        {hasExceptions && (
+                          <span
+                            className="absolute -top-0.5 -right-0.5 w-2 h-2 bg-amber-400 rounded-full"
+                            title="변경/취소된 회차가 있습니다"
+                          ></span>
+                        )}
+                        {hasConflicts && (
+                          <span
+                            className="absolute -top-0.5 -left-0.5 w-2 h-2 bg-red-500 rounded-full"
+                            title="시간이 겹치는 일정이 있습니다"
+                          ></span>
+                        )}
+                        {hasStaleSnapshots && (
+                          <span
+                            className="absolute -bottom-0.5 -right-0.5 w-2 h-2 bg-gray-500 rounded-full"
+                            title="템플릿이 삭제되었거나 바뀐 일정이 있습니다"
+                          ></span>
+                        )}
                       </div>
                       <div className="text-[8px] text-gray-600">일정</div>
                     </div>
@@ -286,7 +376,10 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
         >
           <div
             className="bg-white rounded-lg shadow-xl max-w-md w-full mx-4 max-h-96 overflow-hidden"
-            onClick={e => e.stopPropagation()}
+            onClick={e => {
+              e.stopPropagation();
+              setContextMenu(null);
+            }}
           >
             <div className="p-3 border-b border-gray-200">
               <h3 className="text-base font-semibold text-gray-900">
@@ -294,52 +387,101 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
               </h3>
             </div>
             <div className="p-4 overflow-y-auto max-h-80">
+              {/* 고정 시간(쉬는 시간, 점심시간) */}
+              {settings.blockedRanges.length > 0 && (
+                <div className="flex flex-wrap gap-1 mb-3">
+                  {settings.blockedRanges.map(range => (
+                    <span
+                      key={range.id}
+                      className="px-1.5 py-0.5 rounded bg-gray-100 border border-dashed border-gray-300 text-[9px] text-gray-500"
+                    >
+                      <i className="ri-forbid-line mr-0.5"></i>
+                      {range.name} {range.startTime}-{range.endTime}
+                    </span>
+                  ))}
+                </div>
+              )}
               <div className="space-y-3">
-                {selectedDayEvents.events.map(event => (
-                  <div
-                    key={event.id}
-                    className="p-3 rounded-lg border border-gray-200 hover:shadow-sm transition-shadow cursor-pointer group"
-                    style={{ borderLeftColor: event.template.color, borderLeftWidth: '4px' }}
-                    onClick={() => handleEventClick(event)}
-                  >
-                    <div className="flex items-start justify-between">
-                      <div className="flex-1">
-                        <h4 className="font-medium text-gray-900 text-[10px]">
-                          {event.template.name}
-                        </h4>
-                        <p className="text-[9px] text-gray-600 mt-1">
-                          {event.startTime} - {event.endTime}
-                        </p>
-                        {event.template.description && (
-                          <p className="text-[9px] text-gray-500 mt-1">
-                            {event.template.description}
+                {selectedDayEvents.events.map(occurrence => {
+                  const { event, startTime, endTime } = occurrence;
+                  return (
+                    <div
+                      key={event.id}
+                      className={`p-3 rounded-lg border border-gray-200 hover:shadow-sm transition-shadow cursor-pointer group ${
+                        occurrence.cancelled ? 'opacity-50' : ''
+                      } ${isConflicting(occurrence) ? 'ring-2 ring-red-500' : ''} ${
+                        matchedEventIds?.has(event.id)
+                          ? 'bg-yellow-50'
+                          : matchedEventIds && dimUnmatched
+                            ? 'opacity-30'
+                            : ''
+                      }`}
+                      style={{ borderLeftColor: getEventColor(event), borderLeftWidth: '4px' }}
+                      onClick={() => !occurrence.cancelled && openEventLinks(event, getOccurrenceUrls(occurrence))}
+                      onContextMenu={e => handleEventContextMenu(e, event)}
+                    >
+                      <div className="flex items-start justify-between">
+                        <div className="flex-1">
+                          <h4 className="font-medium text-gray-900 text-[10px]">
+                            {isConflicting(occurrence) && (
+                              <i className="ri-alert-line text-red-500 mr-0.5" title="다른 일정과 시간이 겹칩니다"></i>
+                            )}
+                            <span className={occurrence.cancelled ? 'line-through' : ''}>{event.template.name}</span>
+                            {snapshotStatuses.get(event.id) === 'orphaned' && (
+                              <span className="ml-1 px-1 rounded bg-gray-100 text-gray-600 text-[8px]">
+                                <i className="ri-link-unlink mr-0.5"></i>템플릿 삭제됨
+                              </span>
+                            )}
+                            {snapshotStatuses.get(event.id) === 'outdated' && (
+                              <span className="ml-1 px-1 rounded bg-gray-100 text-gray-600 text-[8px]">
+                                <i className="ri-refresh-line mr-0.5"></i>템플릿 변경됨
+                              </span>
+                            )}
+                            {occurrence.exception && (
+                              <span className="ml-1 px-1 rounded bg-amber-100 text-amber-700 text-[8px]">
+                                {describeException(occurrence)}
+                              </span>
+                            )}
+                          </h4>
+                          <p className="text-[9px] text-gray-600 mt-1">
+                            {startTime} - {endTime}
+                            {!event.date && (
+                              <span className="ml-1 text-gray-400">
+                                ({describeRecurrence(event.recurrence) || '매주'})
+                              </span>
+                            )}
                           </p>
-                        )}
+                          {event.template.description && (
+                            <p className="text-[9px] text-gray-500 mt-1">
+                              {event.template.description}
+                            </p>
+                          )}
+                          {event.location && (
+                            <p className="text-[9px] text-gray-600 mt-1">
+                              <i className="ri-map-pin-line mr-0.5"></i>
+                              {event.location}
+                            </p>
+                          )}
+                          {event.notes && (
+                            <p className="text-[9px] text-gray-500 mt-1 whitespace-pre-line">
+                              <i className="ri-sticky-note-line mr-0.5"></i>
+                              {event.notes}
+                            </p>
+                          )}
+                        </div>
+                        <button
+                          onClick={e => {
+                            e.stopPropagation();
+                            deleteEvent(event.id);
+                          }}
+                          className="w-6 h-6 flex items-center justify-center text-red-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
+                        >
+                          <i className="ri-delete-bin-line w-4 h-4 flex items-center justify-center"></i>
+                        </button>
                       </div>
-                      <button
-                        onClick={e => {
-                          e.stopPropagation();
-                          onDeleteEvent(event.id);
-                          if (selectedDayEvents.events.length === 1) {
-                            setSelectedDayEvents(null);
-                          } else {
-                            setSelectedDayEvents(prev =>
-                              prev
-                                ? {
-                                    ...prev,
-                                    events: prev.events.filter(e => e.id !== event.id)
-                                  }
-                                : null
-                            );
-                          }
-                        }}
-                        className="w-6 h-6 flex items-center justify-center text-red-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity cursor-pointer"
-                      >
-                        <i className="ri-delete-bin-line w-4 h-4 flex items-center justify-center"></i>
-                      </button>
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             </div>
           </div>
@@ -359,6 +501,20 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
             <i className="ri-edit-line w-3 h-3 flex items-center justify-center mr-1"></i>
             수정
           </button>
+          <button
+            onClick={() => handleSaveAsTemplate('calendar')}
+            className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
+          >
+            <i className="ri-file-add-line w-3 h-3 flex items-center justify-center mr-1"></i>
+            템플릿으로 저장
+          </button>
+          <button
+            onClick={() => handleSaveAsTemplate('library')}
+            className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
+          >
+            <i className="ri-book-mark-line w-3 h-3 flex items-center justify-center mr-1"></i>
+            라이브러리에 저장
+          </button>
           <button
             onClick={handleDeleteEventFromContext}
             className="w-full px-3 py-1.5 text-left text-xs text-red-600 hover:bg-red-50 flex items-center whitespace-nowrap"
@@ -368,6 +524,20 @@ export default function MonthView({ events, selectedTemplate, onAddEvent, onDele
           </button>
         </div>
       )}
+      <div onClick={e => e.stopPropagation()}>
+        <Modal isOpen={pendingConflict !== null} onClose={() => setPendingConflict(null)} title="일정 충돌">
+          {pendingConflict && (
+            <ConflictDialog
+              conflicts={pendingConflict.conflicts}
+              onPlaceAnyway={() => {
+                pendingConflict.apply();
+                setPendingConflict(null);
+              }}
+              onCancel={() => setPendingConflict(null)}
+            />
+          )}
+        </Modal>
+      </div>
     </div>
   );
 }
\ No newline at end of file
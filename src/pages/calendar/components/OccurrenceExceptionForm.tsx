@@ -0,0 +1,128 @@
+import { useState, useEffect } from 'react';
+import type { EventException, EventOccurrence } from '../../../types/calendar';
+import { getOccurrenceUrls } from '../../../utils/occurrences';
+
+interface OccurrenceExceptionFormProps {
+  /** The occurrence being changed. */
+  occurrence: EventOccurrence | null;
+  onSubmit: (exception: EventException) => void;
+  onCancel: () => void;
+}
+
+/**
+ * 반복 일정 중 한 번의 발생만 변경하는 폼. 날짜 이동, 시작/종료 시간,
+ * 이번 회차에만 사용할 링크를 설정합니다. 반복 일정 자체는 변경하지 않습니다.
+ */
+export default function OccurrenceExceptionForm({ occurrence, onSubmit, onCancel }: OccurrenceExceptionFormProps) {
+  const [date, setDate] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [urls, setUrls] = useState<string[]>(['']);
+
+  useEffect(() => {
+    if (!occurrence) return;
+    setDate(occurrence.date);
+    setStartTime(occurrence.startTime);
+    setEndTime(occurrence.endTime);
+    const current = getOccurrenceUrls(occurrence);
+    setUrls(current.length > 0 ? current : ['']);
+  }, [occurrence]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!occurrence) return;
+    const { event } = occurrence;
+    const originalDate = occurrence.exception?.date ?? occurrence.date;
+    const validUrls = urls.filter(url => url.trim() !== '');
+    const templateUrls = event.template.urls ?? [];
+    const urlsChanged =
+      validUrls.length !== templateUrls.length || validUrls.some((url, i) => url !== templateUrls[i]);
+    const timeChanged = startTime !== event.startTime || endTime !== event.endTime;
+    // 반복 일정과 같은 값은 저장하지 않아 이후 일정 수정이 그대로 반영되도록 합니다.
+    onSubmit({
+      date: originalDate,
+      newDate: date && date !== originalDate ? date : undefined,
+      startTime: timeChanged ? startTime : undefined,
+      endTime: timeChanged ? endTime : undefined,
+      urls: urlsChanged ? validUrls : undefined
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Date */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">날짜</label>
+        <input
+          type="date"
+          value={date}
+          onChange={e => setDate(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          required
+        />
+      </div>
+      {/* Time */}
+      <div className="flex space-x-3">
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-2">시작 시간</label>
+          <input
+            type="time"
+            value={startTime}
+            onChange={e => setStartTime(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            required
+          />
+        </div>
+        <div className="flex-1">
+          <label className="block text-sm font-medium text-gray-700 mb-2">종료 시간</label>
+          <input
+            type="time"
+            value={endTime}
+            onChange={e => setEndTime(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+            required
+          />
+        </div>
+      </div>
+      {/* URLs */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">이번 회차 링크</label>
+        <div className="space-y-2">
+          {urls.map((url, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                type="url"
+                value={url}
+                onChange={e => setUrls(prev => prev.map((u, i) => (i === index ? e.target.value : u)))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+                placeholder="https://example.com"
+              />
+              {urls.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setUrls(prev => prev.filter((_, i) => i !== index))}
+                  className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-red-500 cursor-pointer"
+                >
+                  <i className="ri-close-line w-4 h-4 flex items-center justify-center"></i>
+                </button>
+              )}
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => setUrls(prev => [...prev, ''])}
+            className="flex items-center space-x-2 text-blue-600 hover:text-blue-700 cursor-pointer"
+          >
+            <i className="ri-add-line w-4 h-4 flex items-center justify-center"></i>
+            <span className="text-sm">URL 추가</span>
+          </button>
+        </div>
+      </div>
+      {/* Action buttons */}
+      <div className="flex space-x-3 pt-4">
+        <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 border rounded-lg border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">취소</button>
+        <button type="submit" className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm">이번만 변경</button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import type { Recurrence } from '../../../types/calendar';
+import { getWeekStart, toDateKey } from '../../../utils/time';
+
+interface RecurrenceFormProps {
+  /** Rule currently stored on the event, if any. */
+  recurrence?: Recurrence;
+  /** Called with the new rule, or undefined to repeat every week without bounds. */
+  onSubmit: (recurrence: Recurrence | undefined) => void;
+  onCancel: () => void;
+}
+
+const INTERVAL_OPTIONS = [
+  { label: '매주', value: 1 },
+  { label: '격주', value: 2 },
+  { label: '3주마다', value: 3 },
+  { label: '4주마다', value: 4 }
+];
+
+type EndMode = 'never' | 'date' | 'count';
+
+/**
+ * 반복 일정의 반복 규칙을 편집하는 폼. 반복 주기(매주/격주/N주마다),
+ * 격주 이상일 때의 A/B주(홀수주/짝수주) 선택, 시작일, 종료 조건(종료일 또는 횟수)을 설정합니다.
+ */
+export default function RecurrenceForm({ recurrence, onSubmit, onCancel }: RecurrenceFormProps) {
+  const [repeatInterval, setRepeatInterval] = useState(1);
+  const [weekOffset, setWeekOffset] = useState(0);
+  const [startDate, setStartDate] = useState('');
+  const [endMode, setEndMode] = useState<EndMode>('never');
+  const [endDate, setEndDate] = useState('');
+  const [count, setCount] = useState(10);
+
+  useEffect(() => {
+    setRepeatInterval(recurrence?.interval ?? 1);
+    setWeekOffset(recurrence?.weekOffset ?? 0);
+    setStartDate(recurrence?.startDate ?? '');
+    setEndMode(recurrence?.endDate ? 'date' : recurrence?.count !== undefined ? 'count' : 'never');
+    setEndDate(recurrence?.endDate ?? '');
+    setCount(recurrence?.count ?? 10);
+  }, [recurrence]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rule: Recurrence = {};
+    if (repeatInterval > 1) {
+      rule.interval = repeatInterval;
+      rule.weekOffset = Math.min(weekOffset, repeatInterval - 1);
+      // 격주 이상은 기준 주가 필요하므로 시작일이 없으면 이번 주를 기준으로 삼습니다.
+      rule.startDate = startDate || toDateKey(getWeekStart(new Date()));
+    } else if (startDate) {
+      rule.startDate = startDate;
+    }
+    if (endMode === 'date' && endDate) rule.endDate = endDate;
+    if (endMode === 'count' && count > 0) rule.count = count;
+    onSubmit(Object.keys(rule).length > 0 ? rule : undefined);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {/* Interval */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">반복 주기</label>
+        <select
+          value={repeatInterval}
+          onChange={e => setRepeatInterval(parseInt(e.target.value))}
+          className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        >
+          {INTERVAL_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      </div>
+      {/* A/B week rotation */}
+      {repeatInterval > 1 && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">반복 주차</label>
+          <div className="flex flex-wrap gap-2">
+            {Array.from({ length: repeatInterval }, (_, i) => (
+              <button
+                key={i}
+                type="button"
+                onClick={() => setWeekOffset(i)}
+                className={`px-3 py-1.5 text-sm rounded-lg border cursor-pointer ${
+                  weekOffset === i ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {repeatInterval === 2 ? (i === 0 ? 'A주 (홀수주)' : 'B주 (짝수주)') : `${i + 1}번째 주`}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">시작일이 속한 주를 1주차로 계산합니다.</p>
+        </div>
+      )}
+      {/* Start date */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">시작일</label>
+        <input
+          type="date"
+          value={startDate}
+          onChange={e => setStartDate(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+        />
+      </div>
+      {/* End condition */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">종료</label>
+        <div className="space-y-2 text-sm text-gray-700">
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={endMode === 'never'} onChange={() => setEndMode('never')} />
+            <span>없음</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={endMode === 'date'} onChange={() => setEndMode('date')} />
+            <span>종료일</span>
+            <input
+              type="date"
+              value={endDate}
+              min={startDate || undefined}
+              onChange={e => {
+                setEndDate(e.target.value);
+                setEndMode('date');
+              }}
+              className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="radio" checked={endMode === 'count'} onChange={() => setEndMode('count')} />
+            <input
+              type="number"
+              min={1}
+              value={count}
+              onChange={e => {
+                setCount(parseInt(e.target.value) || 1);
+                setEndMode('count');
+              }}
+              className="w-20 px-2 py-1 border border-gray-300 rounded-lg text-sm"
+            />
+            <span>회 반복 후 종료</span>
+          </label>
+        </div>
+      </div>
+      {/* Action buttons */}
+      <div className="flex space-x-3 pt-4">
+        <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 border rounded-lg border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">취소</button>
+        <button type="submit" className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm">저장</button>
+      </div>
+    </form>
+  );
+}
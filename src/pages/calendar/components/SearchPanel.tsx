@@ -0,0 +1,134 @@
+import type { CalendarData, CalendarEvent } from '../../../types/calendar';
+import { DAY_LABELS } from '../../../utils/calendarSettings';
+import { parseDateKey } from '../../../utils/time';
+import { getEventColor } from '../../../utils/occurrences';
+import { searchCalendars } from '../../../utils/search';
+
+interface SearchPanelProps {
+  query: string;
+  onQueryChange: (query: string) => void;
+  /** Dim non-matching events in the current view instead of only highlighting matches. */
+  isFilterMode: boolean;
+  onFilterModeChange: (isFilterMode: boolean) => void;
+  calendars: CalendarData[];
+  selectedCalendarId: string | null;
+  /** Jump to a calendar, and to the week/month of `event` when it is a one-off event. */
+  onSelectResult: (calendarId: string, event?: CalendarEvent) => void;
+  onClose: () => void;
+}
+
+/** 검색 결과에 표시할 일정의 요일/날짜와 시간. */
+function describeWhen(event: CalendarEvent): string {
+  const when = event.date
+    ? `${parseDateKey(event.date).getMonth() + 1}/${parseDateKey(event.date).getDate()}`
+    : `매주 ${DAY_LABELS[event.day]}`;
+  return `${when} ${event.startTime}-${event.endTime}`;
+}
+
+/**
+ * 모든 시간표의 템플릿 이름, 설명, 링크, 태그를 검색하는 패널. 결과를 누르면 해당 시간표로 이동하고,
+ * 검색어와 일치하는 일정은 현재 보기에서 강조됩니다. 필터 모드에서는 일치하지 않는 일정을 흐리게 표시합니다.
+ */
+export default function SearchPanel({
+  query,
+  onQueryChange,
+  isFilterMode,
+  onFilterModeChange,
+  calendars,
+  selectedCalendarId,
+  onSelectResult,
+  onClose
+}: SearchPanelProps) {
+  const results = searchCalendars(calendars, query);
+
+  return (
+    <div className="fixed top-16 right-4 w-96 bg-white shadow-lg rounded-lg border border-gray-200 z-50 flex flex-col max-h-[70vh]">
+      <div className="p-3 border-b border-gray-100 space-y-2">
+        <div className="flex items-center space-x-2">
+          <div className="flex-1 flex items-center px-2 border border-gray-300 rounded-lg focus-within:ring-2 focus-within:ring-blue-500">
+            <i className="ri-search-line text-gray-400"></i>
+            <input
+              type="text"
+              value={query}
+              onChange={e => onQueryChange(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Escape') onClose();
+              }}
+              placeholder="템플릿 이름, 설명, 링크, 태그 검색"
+              className="flex-1 px-2 py-1.5 text-sm focus:outline-none"
+              autoFocus
+            />
+            {query && (
+              <button
+                onClick={() => onQueryChange('')}
+                className="w-4 h-4 flex items-center justify-center text-gray-400 hover:text-gray-600 cursor-pointer"
+                title="검색어 지우기"
+              >
+                <i className="ri-close-circle-fill"></i>
+              </button>
+            )}
+          </div>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700" title="닫기">
+            <i className="ri-close-line"></i>
+          </button>
+        </div>
+        <label className="flex items-center space-x-2 text-xs text-gray-600">
+          <input type="checkbox" checked={isFilterMode} onChange={e => onFilterModeChange(e.target.checked)} />
+          <span>필터 모드 (일치하지 않는 일정 흐리게)</span>
+        </label>
+      </div>
+      <div className="p-3 overflow-y-auto space-y-4">
+        {!query.trim() ? (
+          <p className="text-sm text-gray-500">모든 시간표에서 검색합니다.</p>
+        ) : results.length === 0 ? (
+          <p className="text-sm text-gray-500">일치하는 일정이나 템플릿이 없습니다.</p>
+        ) : (
+          results.map(({ calendar, templates, events }) => (
+            <div key={calendar.id}>
+              <button
+                onClick={() => onSelectResult(calendar.id)}
+                className="w-full flex items-center justify-between text-xs font-semibold text-gray-500 mb-1.5 hover:text-blue-600 cursor-pointer"
+              >
+                <span>
+                  {calendar.name}
+                  {calendar.id === selectedCalendarId && (
+                    <span className="ml-1 px-1 rounded bg-blue-100 text-blue-700 font-medium">현재</span>
+                  )}
+                </span>
+                <span className="font-normal">일정 {events.length}개</span>
+              </button>
+              <div className="space-y-1">
+                {events.map(event => (
+                  <button
+                    key={event.id}
+                    onClick={() => onSelectResult(calendar.id, event)}
+                    className="w-full flex items-center space-x-2 px-2 py-1.5 rounded-md text-left hover:bg-gray-50 cursor-pointer"
+                  >
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: getEventColor(event) }}></span>
+                    <span className="flex-1 text-sm text-gray-900 truncate">{event.template.name}</span>
+                    <span className="text-xs text-gray-500 whitespace-nowrap">{describeWhen(event)}</span>
+                  </button>
+                ))}
+                {templates.length > 0 && (
+                  <div className="flex flex-wrap gap-1 pt-1">
+                    {templates.map(template => (
+                      <button
+                        key={template.id}
+                        onClick={() => onSelectResult(calendar.id)}
+                        className="flex items-center px-1.5 py-0.5 rounded border border-gray-200 text-xs text-gray-600 hover:bg-gray-50 cursor-pointer"
+                        title="템플릿"
+                      >
+                        <span className="w-1.5 h-1.5 rounded-full mr-1" style={{ backgroundColor: template.color }}></span>
+                        {template.name}
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import type { Template } from '../../../types/calendar';
+import { PRESET_COLORS } from './TemplateForm';
+
+interface SelectionToolbarProps {
+  /** Number of selected events. */
+  count: number;
+  /** Templates the selection can be reassigned to. */
+  templates: Template[];
+  onRecolor: (color: string) => void;
+  onReassign: (template: Template) => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+/**
+ * 여러 일정을 선택했을 때 주간 보기 위쪽에 표시되는 도구 모음. 선택한 일정의 색을
+ * 한꺼번에 바꾸거나, 다른 템플릿으로 바꾸거나, 삭제할 수 있습니다.
+ */
+export default function SelectionToolbar({
+  count,
+  templates,
+  onRecolor,
+  onReassign,
+  onDelete,
+  onClear
+}: SelectionToolbarProps) {
+  return (
+    <div
+      className="flex items-center justify-between px-3 py-1.5 border-b border-blue-200 bg-blue-50"
+      onClick={e => e.stopPropagation()}
+    >
+      <div className="flex items-center space-x-3">
+        <span className="text-xs font-medium text-blue-700 whitespace-nowrap">{count}개 선택됨</span>
+        <div className="flex items-center space-x-1" title="색 바꾸기">
+          {PRESET_COLORS.map(color => (
+            <button
+              key={color}
+              onClick={() => onRecolor(color)}
+              className="w-4 h-4 rounded-full border border-white shadow-sm cursor-pointer hover:scale-110 transition-transform"
+              style={{ backgroundColor: color }}
+            />
+          ))}
+        </div>
+        {templates.length > 0 && (
+          <select
+            value=""
+            onChange={e => {
+              const template = templates.find(t => t.id === e.target.value);
+              if (template) onReassign(template);
+            }}
+            className="px-2 py-1 pr-6 border border-gray-200 rounded-md text-xs text-gray-700 bg-white"
+          >
+            <option value="" disabled>
+              다른 템플릿으로 바꾸기
+            </option>
+            {templates.map(template => (
+              <option key={template.id} value={template.id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+        )}
+      </div>
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={onDelete}
+          className="px-2 py-1 text-xs text-red-600 hover:bg-red-50 rounded-md flex items-center whitespace-nowrap cursor-pointer"
+        >
+          <i className="ri-delete-bin-line w-3 h-3 flex items-center justify-center mr-1"></i>
+          삭제
+        </button>
+        <button
+          onClick={onClear}
+          className="w-6 h-6 flex items-center justify-center text-gray-500 hover:text-gray-700 cursor-pointer"
+          title="선택 해제 (Esc)"
+        >
+          <i className="ri-close-line w-4 h-4 flex items-center justify-center"></i>
+        </button>
+      </div>
+    </div>
+  );
+}
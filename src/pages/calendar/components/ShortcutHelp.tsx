@@ -0,0 +1,66 @@
+/** 단축키 도움말에 표시할 항목. */
+const SHORTCUT_GROUPS: { title: string; items: [string, string][] }[] = [
+  {
+    title: '주간 그리드',
+    items: [
+      ['← → ↑ ↓', '칸 이동 (그리드를 클릭하거나 Tab으로 포커스한 뒤)'],
+      ['Space', '칸 안의 다음 일정으로 초점 이동'],
+      ['Enter', '선택한 템플릿 배치 / 템플릿이 없으면 초점 일정 열기'],
+      ['Delete', '초점 일정 삭제']
+    ]
+  },
+  {
+    title: '템플릿',
+    items: [
+      ['1 – 9', '템플릿 저장 공간의 N번째 템플릿 선택/해제'],
+      ['Esc', '템플릿 선택 해제']
+    ]
+  },
+  {
+    title: '여러 일정 선택',
+    items: [
+      ['Shift/Ctrl + 클릭', '일정 선택에 추가/제외'],
+      ['빈 칸에서 드래그', '범위 안의 일정 선택'],
+      ['← → ↑ ↓', '선택한 일정을 하루 / 배치 시간 단위만큼 이동'],
+      ['Delete', '선택한 일정 삭제'],
+      ['Esc', '선택 해제']
+    ]
+  },
+  {
+    title: '편집',
+    items: [
+      ['Ctrl + Z', '실행 취소'],
+      ['Ctrl + Shift + Z', '다시 실행'],
+      ['/', '검색 열기'],
+      ['?', '이 도움말 열기/닫기']
+    ]
+  }
+];
+
+/**
+ * 단축키 도움말. 주간 그리드 키보드 조작, 템플릿 선택, 여러 일정 선택과 실행 취소
+ * 단축키를 묶어서 보여줍니다. macOS에서는 Ctrl 대신 ⌘를 사용할 수 있습니다.
+ */
+export default function ShortcutHelp() {
+  return (
+    <div className="space-y-4">
+      {SHORTCUT_GROUPS.map(group => (
+        <div key={group.title}>
+          <h4 className="text-xs font-semibold text-gray-500 mb-2">{group.title}</h4>
+          <dl className="space-y-1.5">
+            {group.items.map(([keys, description]) => (
+              <div key={`${group.title}-${keys}`} className="flex items-center justify-between text-sm">
+                <dt>
+                  <kbd className="px-1.5 py-0.5 rounded border border-gray-300 bg-gray-50 text-xs font-mono text-gray-700">
+                    {keys}
+                  </kbd>
+                </dt>
+                <dd className="text-gray-700 text-right ml-4">{description}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+interface TagLegendProps {
+  /** Tags used by the events of the calendar. */
+  tags: string[];
+  hiddenTags: Set<string>;
+  onToggleTag: (tag: string) => void;
+}
+
+/**
+ * 주간/월간 보기 위쪽의 태그 범례. 태그를 누르면 그 태그의 일정을 숨기거나 다시 보여줍니다.
+ * 태그가 여러 개인 일정은 모든 태그가 숨겨졌을 때만 사라지고, 태그가 없는 일정은 항상 보입니다.
+ */
+export default function TagLegend({ tags, hiddenTags, onToggleTag }: TagLegendProps) {
+  if (tags.length === 0) return null;
+  return (
+    <div className="flex items-center gap-1 px-3 py-1 border-b border-gray-200 overflow-x-auto">
+      <i className="ri-price-tag-3-line text-xs text-gray-400 mr-1"></i>
+      {tags.map(tag => {
+        const isHidden = hiddenTags.has(tag);
+        return (
+          <button
+            key={tag}
+            onClick={() => onToggleTag(tag)}
+            className={`flex items-center px-2 py-0.5 rounded-full text-[10px] whitespace-nowrap cursor-pointer border ${
+              isHidden ? 'border-dashed border-gray-300 text-gray-400 line-through' : 'border-gray-300 text-gray-700 bg-white hover:bg-gray-50'
+            }`}
+            title={isHidden ? '보이기' : '숨기기'}
+          >
+            <i className={`mr-0.5 ${isHidden ? 'ri-eye-off-line' : 'ri-eye-line'}`}></i>
+            {tag}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
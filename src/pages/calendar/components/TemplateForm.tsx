@@ -1,24 +1,24 @@
 import { useState, useEffect, useRef } from 'react';
-import { Template } from '../../../types/calendar';
+import type { Template } from '../../../types/calendar';
+import { MINUTES_PER_DAY, formatDuration } from '../../../utils/time';
+import { parseTags } from '../../../utils/tags';
 
 interface TemplateFormProps {
   onSubmit: (template: Omit<Template, 'id'>) => void;
   onCancel: () => void;
   editingTemplate?: Template | null;
+  /** Tags already used in the calendar, offered as quick picks. */
+  knownTags?: string[];
 }
 
 // Preset colours used for template chips.
-const PRESET_COLORS = [
+export const PRESET_COLORS = [
   '#3B82F6', '#EF4444', '#10B981', '#F59E0B',
   '#8B5CF6', '#EC4899', '#06B6D4', '#84CC16'
 ];
 
-const DURATION_OPTIONS = [
-  { label: '1시간', value: 60 },
-  { label: '2시간', value: 120 },
-  { label: '3시간', value: 180 },
-  { label: '4시간', value: 240 }
-];
+// Quick picks for the duration input, in minutes.
+const DURATION_PRESETS = [15, 30, 50, 60, 90, 120, 180];
 
 // Maximum total attachment size (20MB) for general attachments.
 const MAX_TOTAL_ATTACHMENT_SIZE = 20 * 1024 * 1024;
@@ -32,7 +32,7 @@ interface Attachment {
   fileType: string;
 }
 
-export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: TemplateFormProps) {
+export default function TemplateForm({ onSubmit, onCancel, editingTemplate, knownTags = [] }: TemplateFormProps) {
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -42,6 +42,8 @@ export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: Te
     // Note: no separate application file state because the feature has been removed.
   });
   const [attachments, setAttachments] = useState<Attachment[]>([]);
+  // Tags as typed, separated by commas
+  const [tagsInput, setTagsInput] = useState('');
   const [isDragOver, setIsDragOver] = useState(false);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   // Removed appFiles state and its associated ref since application attachments are no longer supported.
@@ -84,6 +86,7 @@ export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: Te
         );
       }
       setAttachments(existing);
+      setTagsInput((editingTemplate.tags ?? []).join(', '));
     } else {
       setFormData({
         name: '',
@@ -93,6 +96,7 @@ export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: Te
         urls: ['']
       });
       setAttachments([]);
+      setTagsInput('');
     }
   }, [editingTemplate]);
 
@@ -150,7 +154,7 @@ export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: Te
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.name.trim()) return;
+    if (!formData.name.trim() || formData.duration <= 0) return;
     const validUrls = formData.urls.filter(url => url.trim() !== '');
     const serializableAttachments = attachments.map(att => ({
       fileData: att.fileData,
@@ -160,12 +164,18 @@ export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: Te
     onSubmit({
       ...formData,
       urls: validUrls,
+      tags: parseTags(tagsInput),
       // Remove deprecated `apps` by explicitly setting undefined
       apps: undefined,
       attachments: serializableAttachments
     } as Omit<Template, 'id'>);
   };
 
+  /** Duration in whole minutes, kept within a single day. */
+  const setDuration = (minutes: number) => {
+    setFormData(prev => ({ ...prev, duration: Math.min(MINUTES_PER_DAY, Math.max(0, Math.round(minutes))) }));
+  };
+
   // URL handlers
   const handleUrlChange = (index: number, value: string) => {
     const newUrls = [...formData.urls];
@@ -289,6 +299,35 @@ export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: Te
           placeholder="템플릿에 대한 설명을 입력하세요"
         />
       </div>
+      {/* Tags */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">태그</label>
+        <input
+          type="text"
+          value={tagsInput}
+          onChange={e => setTagsInput(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          placeholder="쉼표로 구분 (예: 전공, 교양)"
+        />
+        {knownTags.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {knownTags.map(tag => {
+              const isAdded = parseTags(tagsInput).includes(tag);
+              return (
+                <button
+                  key={tag}
+                  type="button"
+                  disabled={isAdded}
+                  onClick={() => setTagsInput(prev => [...parseTags(prev), tag].join(', '))}
+                  className="px-2 py-0.5 rounded-full border border-gray-300 text-xs text-gray-600 hover:bg-gray-50 cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                >
+                  #{tag}
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </div>
       {/* Color selection */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">색상</label>
@@ -307,15 +346,41 @@ export default function TemplateForm({ onSubmit, onCancel, editingTemplate }: Te
       {/* Duration */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-2">시간 설정</label>
-        <select
-          value={formData.duration}
-          onChange={e => setFormData({ ...formData, duration: parseInt(e.target.value) })}
-          className="w-full px-3 py-2 pr-8 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
-        >
-          {DURATION_OPTIONS.map(option => (
-            <option key={option.value} value={option.value}>{option.label}</option>
+        <div className="flex items-center space-x-2">
+          <input
+            type="number"
+            min={0}
+            max={24}
+            value={Math.floor(formData.duration / 60)}
+            onChange={e => setDuration((parseInt(e.target.value) || 0) * 60 + (formData.duration % 60))}
+            className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+          <span className="text-sm text-gray-700">시간</span>
+          <input
+            type="number"
+            min={0}
+            max={59}
+            value={formData.duration % 60}
+            onChange={e => setDuration(Math.floor(formData.duration / 60) * 60 + (parseInt(e.target.value) || 0))}
+            className="w-20 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 text-sm"
+          />
+          <span className="text-sm text-gray-700">분</span>
+        </div>
+        <div className="flex flex-wrap gap-2 mt-2">
+          {DURATION_PRESETS.map(minutes => (
+            <button
+              key={minutes}
+              type="button"
+              onClick={() => setDuration(minutes)}
+              className={`px-2 py-1 text-xs rounded-md border cursor-pointer ${
+                formData.duration === minutes ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {formatDuration(minutes)}
+            </button>
           ))}
-        </select>
+        </div>
+        {formData.duration <= 0 && <p className="text-xs text-red-500 mt-1">1분 이상으로 설정하세요.</p>}
       </div>
       {/* URLs */}
       <div>
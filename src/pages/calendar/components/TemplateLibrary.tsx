@@ -0,0 +1,121 @@
+import type { CalendarData, Template } from '../../../types/calendar';
+import { formatDuration } from '../../../utils/time';
+import { getLinkedCalendars } from '../../../utils/templateLibrary';
+
+interface TemplateLibraryProps {
+  /** Templates of the shared library. */
+  library: Template[];
+  calendars: CalendarData[];
+  selectedCalendarId: string | null;
+  /** Add a library template to the selected calendar, linked or as an independent copy. */
+  onAddToCalendar: (template: Template, link: boolean) => void;
+  onCreate: () => void;
+  onEdit: (template: Template) => void;
+  onDelete: (template: Template) => void;
+}
+
+/**
+ * 모든 시간표에서 함께 쓰는 템플릿 라이브러리. 라이브러리 템플릿을 현재 시간표에
+ * 독립된 사본으로 복사하거나 연결해서 추가할 수 있습니다. 연결된 템플릿은 라이브러리에서
+ * 수정할 때 모든 시간표에 한꺼번에 반영할 수 있습니다.
+ */
+export default function TemplateLibrary({
+  library,
+  calendars,
+  selectedCalendarId,
+  onAddToCalendar,
+  onCreate,
+  onEdit,
+  onDelete
+}: TemplateLibraryProps) {
+  const currentCalendar = calendars.find(calendar => calendar.id === selectedCalendarId);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <p className="text-xs text-gray-500">
+          시간표 템플릿의 <i className="ri-book-mark-line"></i> 버튼으로 라이브러리에 저장할 수도 있습니다.
+        </p>
+        <button
+          onClick={onCreate}
+          className="flex items-center space-x-1 text-blue-600 hover:text-blue-700 cursor-pointer whitespace-nowrap"
+        >
+          <i className="ri-add-line w-4 h-4 flex items-center justify-center"></i>
+          <span className="text-sm">새 라이브러리 템플릿</span>
+        </button>
+      </div>
+      {library.length === 0 ? (
+        <div className="text-center py-6 text-gray-500">
+          <i className="ri-book-2-line w-8 h-8 flex items-center justify-center mx-auto mb-2 text-gray-300"></i>
+          <p className="text-sm">라이브러리가 비어 있습니다</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {library.map(template => {
+            const linkedCalendars = getLinkedCalendars(calendars, template.id);
+            const isLinkedHere = currentCalendar?.templates.some(t => t.libraryId === template.id) ?? false;
+            return (
+              <div
+                key={template.id}
+                className="p-3 border border-gray-200 rounded-lg"
+                style={{ borderLeftColor: template.color, borderLeftWidth: '4px' }}
+              >
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <h4 className="text-sm font-medium text-gray-900 truncate">{template.name}</h4>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      {formatDuration(template.duration)}
+                      {template.description && ` · ${template.description}`}
+                    </p>
+                    {linkedCalendars.length > 0 && (
+                      <p className="text-[10px] text-blue-600 mt-1">
+                        <i className="ri-links-line mr-0.5"></i>
+                        연결됨: {linkedCalendars.map(calendar => calendar.name).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
+                    <button
+                      onClick={() => onEdit(template)}
+                      className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-blue-600 cursor-pointer"
+                      title="수정"
+                    >
+                      <i className="ri-edit-line w-3 h-3 flex items-center justify-center"></i>
+                    </button>
+                    <button
+                      onClick={() => onDelete(template)}
+                      className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-red-600 cursor-pointer"
+                      title="라이브러리에서 삭제"
+                    >
+                      <i className="ri-delete-bin-line w-3 h-3 flex items-center justify-center"></i>
+                    </button>
+                  </div>
+                </div>
+                {currentCalendar && (
+                  <div className="flex items-center space-x-2 mt-2">
+                    <button
+                      onClick={() => onAddToCalendar(template, false)}
+                      className="px-2 py-1 text-xs border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 cursor-pointer"
+                    >
+                      <i className="ri-file-copy-line mr-1"></i>
+                      {currentCalendar.name}에 복사
+                    </button>
+                    <button
+                      onClick={() => onAddToCalendar(template, true)}
+                      disabled={isLinkedHere}
+                      className="px-2 py-1 text-xs border border-blue-300 rounded-md text-blue-700 hover:bg-blue-50 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                      title={isLinkedHere ? '이미 이 시간표에 연결되어 있습니다' : '라이브러리에서 수정하면 함께 바뀝니다'}
+                    >
+                      <i className="ri-links-line mr-1"></i>
+                      {currentCalendar.name}에 연결
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
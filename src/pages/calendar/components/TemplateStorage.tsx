@@ -1,5 +1,10 @@
 import { useState, useRef, useEffect } from 'react';
-import { Template } from '../../../types/calendar';
+import type { Template, TemplateGroup } from '../../../types/calendar';
+import { formatDuration } from '../../../utils/time';
+import { collectTags, getActiveFilterTag } from '../../../utils/tags';
+import { getSectionId, getTemplateSections } from '../../../utils/templateGroups';
+import { isLinkedToLibrary } from '../../../utils/templateLibrary';
+import type { TemplateSectionKey } from '../../../utils/templateGroups';
 
 interface TemplateStorageProps {
   templates: Template[];
@@ -7,6 +12,35 @@ interface TemplateStorageProps {
   onSelectTemplate: (template: Template) => void;
   onDeleteTemplate: (templateId: string) => void;
   onEditTemplate: (template: Template) => void;
+  /** Template folders of the calendar, in display order. */
+  templateGroups: TemplateGroup[];
+  /** Move a template into a section, before `beforeId` or at the end. */
+  onReorderTemplate: (templateId: string, target: TemplateSectionKey, beforeId?: string) => void;
+  onTogglePinned: (templateId: string) => void;
+  onAddGroup: (name: string) => void;
+  onRenameGroup: (groupId: string, name: string) => void;
+  onDeleteGroup: (groupId: string) => void;
+  /** Tag the list is filtered by, or null to show every template. */
+  activeTag: string | null;
+  onActiveTagChange: (tag: string | null) => void;
+  /** IDs of the collapsed sections (see `getSectionId`). */
+  collapsedSections: string[];
+  onToggleSection: (sectionId: string) => void;
+  /** Templates the list shows, in order; number keys 1–9 select the first nine. */
+  visibleTemplates: Template[];
+  /** Open the shared template library. */
+  onOpenLibrary: () => void;
+  /** Templates in the shared library, to tell live links from links to deleted entries. */
+  library: Template[];
+  /** Save a template to the shared library and link it. */
+  onSaveToLibrary: (template: Template) => void;
+  /** Number of placed events per template ID whose snapshot differs from the template. */
+  outdatedCounts: Record<string, number>;
+  /** Open the sync flow that pushes the template to its outdated events. */
+  onSyncTemplate: (template: Template) => void;
+  /** Number of events whose template was deleted or changed since they were placed. */
+  staleEventCount: number;
+  onOpenMaintenance: () => void;
 }
 
 const STORAGE_KEY = 'template-storage-height';
@@ -27,13 +61,33 @@ const HEADER_HEIGHT = 50;
  * 주간/월간 보기와 비슷한 비율로 축소하기 위해 폰트 크기와 버튼 크기를 줄였습니다.
  * 아래에 고정되어 있고 드래그하여 높이를 조절할 수 있으며 템플릿 목록을 렌더링하고
  * 선택/수정/삭제 기능을 제공합니다. 높이와 접힘 상태는 localStorage에 저장되어 유지됩니다.
+ * 템플릿에 태그가 있으면 헤더에서 태그별로 걸러 볼 수 있습니다. 템플릿은 고정됨, 그룹 없음,
+ * 폴더별 영역으로 나뉘며 끌어서 순서를 바꾸거나 다른 폴더로 옮길 수 있습니다.
  */
 export default function TemplateStorage({
   templates,
   selectedTemplate,
   onSelectTemplate,
   onDeleteTemplate,
-  onEditTemplate
+  onEditTemplate,
+  templateGroups,
+  onReorderTemplate,
+  onTogglePinned,
+  onAddGroup,
+  onRenameGroup,
+  onDeleteGroup,
+  activeTag,
+  onActiveTagChange,
+  collapsedSections,
+  onToggleSection,
+  visibleTemplates,
+  onOpenLibrary,
+  library,
+  onSaveToLibrary,
+  outdatedCounts,
+  onSyncTemplate,
+  staleEventCount,
+  onOpenMaintenance
 }: TemplateStorageProps) {
   const [height, setHeight] = useState(() => {
     const saved = typeof window !== 'undefined' ? localStorage.getItem(STORAGE_KEY) : null;
@@ -47,6 +101,17 @@ export default function TemplateStorage({
   const [startY, setStartY] = useState(0);
   const [startHeight, setStartHeight] = useState(0);
   const containerRef = useRef<HTMLDivElement>(null);
+  // 목록을 걸러 볼 태그. 숫자 키도 걸러진 목록을 따르므로 태그와 접어 둔 영역은 페이지에서 관리합니다.
+  const tags = collectTags(templates);
+  const filterTag = getActiveFilterTag(templates, activeTag);
+  const matchesActiveTag = (template: Template) => !filterTag || !!template.tags?.includes(filterTag);
+  const sections = getTemplateSections(templates, templateGroups);
+  // 폴더나 고정 템플릿이 있을 때만 영역 머리글을 보여줍니다.
+  const showSectionHeaders = templateGroups.length > 0 || templates.some(t => t.pinned);
+  // 저장 공간 안에서 끌고 있는 템플릿과 놓일 위치
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropSectionId, setDropSectionId] = useState<string | null>(null);
+  const [dropBeforeId, setDropBeforeId] = useState<string | null>(null);
 
   // 높이와 접힘 상태 저장
   useEffect(() => {
@@ -111,10 +176,149 @@ export default function TemplateStorage({
   };
   const handleDragStart = (e: React.DragEvent, template: Template) => {
     e.dataTransfer.setData('template', JSON.stringify(template));
+    setDraggingId(template.id);
+  };
+  const endDrag = () => {
+    setDraggingId(null);
+    setDropSectionId(null);
+    setDropBeforeId(null);
+  };
+  const handleAddGroup = () => {
+    const name = typeof window !== 'undefined' ? window.prompt('폴더 이름을 입력하세요', '새 폴더') : null;
+    if (name && name.trim() !== '') onAddGroup(name.trim());
+  };
+  const handleRenameGroup = (groupId: string, currentName: string) => {
+    const name = typeof window !== 'undefined' ? window.prompt('새 이름을 입력하세요', currentName) : null;
+    if (name && name.trim() !== '' && name !== currentName) onRenameGroup(groupId, name.trim());
+  };
+  const handleDeleteGroup = (groupId: string, name: string) => {
+    if (typeof window !== 'undefined' && window.confirm(`${name} 폴더를 삭제하시겠습니까? 폴더 안의 템플릿은 남습니다.`)) {
+      onDeleteGroup(groupId);
+    }
   };
   // 화면에 표시되는 높이는 접힘 상태일 경우 헤더 높이만 보여줍니다.
   const displayHeight = isCollapsed ? HEADER_HEIGHT : height;
 
+  /** 템플릿 카드. 카드 위에 다른 템플릿을 놓으면 그 카드 앞으로 옮겨집니다. */
+  const renderCard = (template: Template, sectionKey: TemplateSectionKey) => {
+    const index = visibleTemplates.indexOf(template);
+    return (
+      <div
+        key={template.id}
+        className={`p-2 border rounded-lg cursor-pointer group ${
+          selectedTemplate?.id === template.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300 hover:shadow-sm'
+        } ${draggingId === template.id ? 'opacity-40' : ''} ${
+          dropBeforeId === template.id ? 'shadow-[-3px_0_0_0_#3b82f6]' : ''
+        }`}
+        draggable
+        onDragStart={e => handleDragStart(e, template)}
+        onDragEnd={endDrag}
+        onDragOver={e => {
+          if (!draggingId) return;
+          e.preventDefault();
+          e.stopPropagation();
+          setDropSectionId(getSectionId(sectionKey));
+          setDropBeforeId(template.id);
+        }}
+        onDrop={e => {
+          if (!draggingId) return;
+          e.preventDefault();
+          e.stopPropagation();
+          onReorderTemplate(draggingId, sectionKey, template.id);
+          endDrag();
+        }}
+        onClick={() => onSelectTemplate(template)}
+      >
+        <div className="flex items-start justify-between mb-1">
+          <div className="flex items-center space-x-1">
+            <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: template.color }}></div>
+            {/* 숫자 키 1–9로 지금 보이는 템플릿 중 앞쪽 아홉 개를 고를 수 있습니다. */}
+            {index !== -1 && index < 9 && <span className="text-[8px] text-gray-400" title={`${index + 1} 키로 선택`}>{index + 1}</span>}
+            {isLinkedToLibrary(template, library) && (
+              <i className="ri-links-line text-[9px] text-blue-500" title="라이브러리와 연결됨"></i>
+            )}
+          </div>
+          <div className="flex space-x-1 opacity-0 group-hover:opacity-100">
+            {!isLinkedToLibrary(template, library) && (
+              <button
+                onClick={e => {
+                  e.stopPropagation();
+                  onSaveToLibrary(template);
+                }}
+                className="w-5 h-5 flex items-center justify-center text-gray-400 hover:text-blue-600 cursor-pointer"
+                title="라이브러리에 저장"
+              >
+                <i className="ri-book-mark-line w-2.5 h-2.5 flex items-center justify-center"></i>
+              </button>
+            )}
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onTogglePinned(template.id);
+              }}
+              className={`w-5 h-5 flex items-center justify-center cursor-pointer ${
+                template.pinned ? 'text-amber-500 hover:text-amber-600' : 'text-gray-400 hover:text-amber-500'
+              }`}
+              title={template.pinned ? '고정 해제' : '맨 위에 고정'}
+            >
+              <i className={`w-2.5 h-2.5 flex items-center justify-center ${template.pinned ? 'ri-pushpin-2-fill' : 'ri-pushpin-2-line'}`}></i>
+            </button>
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onEditTemplate(template);
+              }}
+              className="w-5 h-5 flex items-center justify-center text-gray-400 hover:text-blue-600 cursor-pointer"
+              title="수정"
+            >
+              <i className="ri-edit-line w-2.5 h-2.5 flex items-center justify-center"></i>
+            </button>
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onDeleteTemplate(template.id);
+              }}
+              className="w-5 h-5 flex items-center justify-center text-gray-400 hover:text-red-600 cursor-pointer"
+              title="삭제"
+            >
+              <i className="ri-delete-bin-line w-2.5 h-2.5 flex items-center justify-center"></i>
+            </button>
+          </div>
+        </div>
+        <h4 className="font-medium text-gray-900 text-[10px] mb-1 truncate">{template.name}</h4>
+        <p className="text-[9px] text-gray-600 mb-1 line-clamp-2">{template.description || '설명 없음'}</p>
+        {template.tags && template.tags.length > 0 && (
+          <div className="flex flex-wrap gap-0.5 mb-1">
+            {template.tags.map(tag => (
+              <span key={tag} className="px-1 rounded bg-gray-100 text-[8px] text-gray-500">
+                #{tag}
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between text-[8px] text-gray-500">
+          <span>
+            {formatDuration(template.duration)}
+          </span>
+          {outdatedCounts[template.id] > 0 && (
+            <button
+              onClick={e => {
+                e.stopPropagation();
+                onSyncTemplate(template);
+              }}
+              className="flex items-center px-1 rounded bg-amber-100 text-amber-700 hover:bg-amber-200 cursor-pointer"
+              title="템플릿과 내용이 다른 일정에 변경 내용 반영"
+            >
+              <i className="ri-refresh-line mr-0.5"></i>
+              {outdatedCounts[template.id]}
+            </button>
+          )}
+          <i className="ri-drag-move-line w-2.5 h-2.5 flex items-center justify-center opacity-50"></i>
+        </div>
+      </div>
+    );
+  };
+
   return (
     <div
       ref={containerRef}
@@ -131,71 +335,146 @@ export default function TemplateStorage({
       </div>
       {/* 헤더 */}
       <div className="flex items-center justify-between p-3 border-b border-gray-200">
-        <h3 className="text-sm font-semibold text-gray-900">템플릿 저장 공간</h3>
-        <button
-          onClick={toggleCollapse}
-          className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-gray-600 cursor-pointer"
-          title={isCollapsed ? '펼치기' : '접기'}
-        >
-          <i className={`w-3 h-3 flex items-center justify-center ${isCollapsed ? 'ri-arrow-up-line' : 'ri-arrow-down-line'}`}></i>
-        </button>
+        <div className="flex items-center space-x-3 min-w-0">
+          <h3 className="text-sm font-semibold text-gray-900 whitespace-nowrap">템플릿 저장 공간</h3>
+          {tags.length > 0 && (
+            <div className="flex items-center gap-1 overflow-x-auto">
+              {[null, ...tags].map(tag => (
+                <button
+                  key={tag ?? ''}
+                  onClick={() => onActiveTagChange(tag)}
+                  className={`px-2 py-0.5 rounded-full text-[10px] whitespace-nowrap cursor-pointer ${
+                    filterTag === tag
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                  }`}
+                >
+                  {tag === null ? '전체' : `#${tag}`}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={onOpenMaintenance}
+            className="relative w-6 h-6 flex items-center justify-center text-gray-400 hover:text-gray-600 cursor-pointer"
+            title="일정 점검"
+          >
+            <i className="ri-first-aid-kit-line w-3 h-3 flex items-center justify-center"></i>
+            {staleEventCount > 0 && (
+              <span className="absolute -top-1 -right-1 min-w-[14px] h-[14px] px-0.5 rounded-full bg-amber-500 text-white text-[8px] leading-[14px] text-center">
+                {staleEventCount}
+              </span>
+            )}
+          </button>
+          <button
+            onClick={onOpenLibrary}
+            className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-gray-600 cursor-pointer"
+            title="템플릿 라이브러리"
+          >
+            <i className="ri-book-2-line w-3 h-3 flex items-center justify-center"></i>
+          </button>
+          <button
+            onClick={handleAddGroup}
+            className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-gray-600 cursor-pointer"
+            title="폴더 추가"
+          >
+            <i className="ri-folder-add-line w-3 h-3 flex items-center justify-center"></i>
+          </button>
+          <button
+            onClick={toggleCollapse}
+            className="w-6 h-6 flex items-center justify-center text-gray-400 hover:text-gray-600 cursor-pointer"
+            title={isCollapsed ? '펼치기' : '접기'}
+          >
+            <i className={`w-3 h-3 flex items-center justify-center ${isCollapsed ? 'ri-arrow-up-line' : 'ri-arrow-down-line'}`}></i>
+          </button>
+        </div>
       </div>
       {/* 콘텐츠 영역 */}
       {!isCollapsed && (
         <div className="p-3 overflow-y-auto" style={{ height: `${height - HEADER_HEIGHT}px` }}>
-          {templates.length === 0 ? (
+          {templates.length === 0 && templateGroups.length === 0 ? (
             <div className="text-center py-4 text-gray-500">
               <i className="ri-folder-open-line w-8 h-8 flex items-center justify-center mx-auto mb-2 text-gray-300"></i>
               <p>저장된 템플릿이 없습니다</p>
               <p className="text-xs">새 템플릿을 생성해보세요</p>
             </div>
           ) : (
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-2">
-              {templates.map(template => (
-                <div
-                  key={template.id}
-                  className={`p-2 border rounded-lg cursor-pointer group ${
-                    selectedTemplate?.id === template.id ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:border-gray-300 hover:shadow-sm'
-                  }`}
-                  draggable
-                  onDragStart={e => handleDragStart(e, template)}
-                  onClick={() => onSelectTemplate(template)}
-                >
-                  <div className="flex items-start justify-between mb-1">
-                    <div className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: template.color }}></div>
-                    <div className="flex space-x-1 opacity-0 group-hover:opacity-100">
-                      <button
-                        onClick={e => {
-                          e.stopPropagation();
-                          onEditTemplate(template);
-                        }}
-                        className="w-5 h-5 flex items-center justify-center text-gray-400 hover:text-blue-600 cursor-pointer"
-                        title="수정"
-                      >
-                        <i className="ri-edit-line w-2.5 h-2.5 flex items-center justify-center"></i>
-                      </button>
-                      <button
-                        onClick={e => {
-                          e.stopPropagation();
-                          onDeleteTemplate(template.id);
-                        }}
-                        className="w-5 h-5 flex items-center justify-center text-gray-400 hover:text-red-600 cursor-pointer"
-                        title="삭제"
-                      >
-                        <i className="ri-delete-bin-line w-2.5 h-2.5 flex items-center justify-center"></i>
-                      </button>
-                    </div>
-                  </div>
-                  <h4 className="font-medium text-gray-900 text-[10px] mb-1 truncate">{template.name}</h4>
-                  <p className="text-[9px] text-gray-600 mb-1 line-clamp-2">{template.description || '설명 없음'}</p>
-                  <div className="flex items-center justify-between text-[8px] text-gray-500">
-                    <span>
-                      {Math.floor(template.duration / 60)}시간 {template.duration % 60}분
-                    </span>
-                    <i className="ri-drag-move-line w-2.5 h-2.5 flex items-center justify-center opacity-50"></i>
+            <div className="space-y-3">
+              {sections.map(section => {
+                const sectionId = getSectionId(section.key);
+                const { group } = section;
+                const shown = section.templates.filter(matchesActiveTag);
+                // 고정/그룹 없음 영역은 비어 있으면 숨기되(끌어다 놓는 중에는 놓을 곳으로 보여줍니다),
+                // 태그로 거르는 중에는 해당 템플릿이 없는 폴더도 숨깁니다.
+                if (!group && section.templates.length === 0 && !(draggingId && showSectionHeaders)) return null;
+                if (filterTag && shown.length === 0) return null;
+                const isSectionCollapsed = collapsedSections.includes(sectionId);
+                return (
+                  <div
+                    key={sectionId}
+                    className={`rounded-lg ${dropSectionId === sectionId ? 'bg-blue-50' : ''}`}
+                    onDragOver={e => {
+                      if (!draggingId) return;
+                      e.preventDefault();
+                      setDropSectionId(sectionId);
+                    }}
+                    onDrop={e => {
+                      if (!draggingId) return;
+                      e.preventDefault();
+                      onReorderTemplate(draggingId, section.key);
+                      endDrag();
+                    }}
+                  >
+                    {showSectionHeaders && (
+                      <div className="flex items-center space-x-1 mb-1.5 group/section">
+                        <button
+                          onClick={() => onToggleSection(sectionId)}
+                          className="flex items-center space-x-1 text-xs font-medium text-gray-600 hover:text-gray-900 cursor-pointer"
+                        >
+                          <i className={isSectionCollapsed ? 'ri-arrow-right-s-line' : 'ri-arrow-down-s-line'}></i>
+                          <i
+                            className={
+                              section.key.pinned ? 'ri-pushpin-2-fill text-amber-500' : group ? 'ri-folder-line' : 'ri-inbox-line'
+                            }
+                          ></i>
+                          <span>{section.key.pinned ? '고정됨' : group ? group.name : '그룹 없음'}</span>
+                          <span className="text-[10px] text-gray-400">{section.templates.length}</span>
+                        </button>
+                        {group && (
+                          <div className="flex space-x-1 opacity-0 group-hover/section:opacity-100">
+                            <button
+                              onClick={() => handleRenameGroup(group.id, group.name)}
+                              className="w-5 h-5 flex items-center justify-center text-gray-400 hover:text-blue-600 cursor-pointer"
+                              title="폴더 이름 수정"
+                            >
+                              <i className="ri-edit-line w-2.5 h-2.5 flex items-center justify-center"></i>
+                            </button>
+                            <button
+                              onClick={() => handleDeleteGroup(group.id, group.name)}
+                              className="w-5 h-5 flex items-center justify-center text-gray-400 hover:text-red-600 cursor-pointer"
+                              title="폴더 삭제 (템플릿은 남습니다)"
+                            >
+                              <i className="ri-delete-bin-line w-2.5 h-2.5 flex items-center justify-center"></i>
+                            </button>
+                          </div>
+                        )}
+                      </div>
+                    )}
+                    {!isSectionCollapsed &&
+                      (shown.length === 0 ? (
+                        <div className="py-3 text-center text-[10px] text-gray-400 border border-dashed border-gray-200 rounded-lg">
+                          템플릿을 끌어다 놓으세요
+                        </div>
+                      ) : (
+                        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-2">
+                          {shown.map(template => renderCard(template, section.key))}
+                        </div>
+                      ))}
                   </div>
-                </div>
-              ))}
+                );
+              })}
             </div>
           )}
         </div>
@@ -0,0 +1,134 @@
+import { useState, useEffect } from 'react';
+import type { Template } from '../../../types/calendar';
+import type { OutdatedEvent, SyncField } from '../../../utils/templateSync';
+import { DAY_LABELS } from '../../../utils/calendarSettings';
+import { parseDateKey } from '../../../utils/time';
+
+interface TemplateSyncFormProps {
+  /** The current template the events are synced from. */
+  template: Template | null;
+  /** Events placed from the template whose snapshot differs from it. */
+  outdated: OutdatedEvent[];
+  /** Apply the template to the events with these IDs. */
+  onSubmit: (eventIds: string[]) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<SyncField, string> = {
+  name: '이름',
+  description: '설명',
+  color: '색상',
+  urls: 'URL',
+  attachments: '첨부 파일',
+  tags: '태그'
+};
+
+/**
+ * 템플릿을 고친 뒤 이미 배치된 일정에 변경 내용을 반영하는 폼. 템플릿과 내용이 달라진 일정과
+ * 달라진 항목(이전 → 현재)을 보여주고, 고른 일정이나 모든 일정에 적용합니다. 일정의 시간은 바꾸지 않습니다.
+ */
+export default function TemplateSyncForm({ template, outdated, onSubmit, onCancel }: TemplateSyncFormProps) {
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    setSelectedIds(outdated.map(({ event }) => event.id));
+  }, [template]);
+
+  const toggleEvent = (eventId: string) => {
+    setSelectedIds(prev => (prev.includes(eventId) ? prev.filter(id => id !== eventId) : [...prev, eventId]));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const ids = outdated.map(({ event }) => event.id).filter(id => selectedIds.includes(id));
+    if (ids.length === 0) return;
+    onSubmit(ids);
+  };
+
+  const renderValue = (field: SyncField, value: string) => {
+    if (!value) return <span className="text-gray-400">(없음)</span>;
+    if (field === 'color') {
+      return (
+        <span className="inline-flex items-center">
+          <span className="w-3 h-3 rounded-full mr-1" style={{ backgroundColor: value }}></span>
+          {value}
+        </span>
+      );
+    }
+    return value;
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {outdated.length === 0 ? (
+        <p className="text-sm text-gray-500">모든 일정이 템플릿과 같습니다.</p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">{template?.name}</span> 템플릿과 내용이 다른 일정 {outdated.length}개
+            </p>
+            <button
+              type="button"
+              onClick={() =>
+                setSelectedIds(selectedIds.length === outdated.length ? [] : outdated.map(({ event }) => event.id))
+              }
+              className="text-xs text-blue-600 hover:text-blue-700 cursor-pointer"
+            >
+              {selectedIds.length === outdated.length ? '모두 해제' : '모두 선택'}
+            </button>
+          </div>
+          <ul className="space-y-2">
+            {outdated.map(({ event, diff }) => (
+              <li key={event.id} className="p-3 border border-gray-200 rounded-lg">
+                <label className="flex items-center space-x-2 text-sm text-gray-900 cursor-pointer">
+                  <input type="checkbox" checked={selectedIds.includes(event.id)} onChange={() => toggleEvent(event.id)} />
+                  <span className="w-3 h-3 rounded-full flex-shrink-0" style={{ backgroundColor: event.template.color }}></span>
+                  <span className="font-medium truncate">{event.template.name}</span>
+                  <span className="text-gray-500 flex-shrink-0">
+                    {event.date
+                      ? `${parseDateKey(event.date).getMonth() + 1}/${parseDateKey(event.date).getDate()}(${DAY_LABELS[event.day]})`
+                      : `매주 ${DAY_LABELS[event.day]}`}{' '}
+                    {event.startTime} - {event.endTime}
+                  </span>
+                </label>
+                <table className="w-full mt-2 text-xs">
+                  <tbody>
+                    {diff.map(({ field, before, after }) => (
+                      <tr key={field} className="align-top">
+                        <td className="py-0.5 pr-2 text-gray-500 whitespace-nowrap">{FIELD_LABELS[field]}</td>
+                        <td className="py-0.5 pr-2 text-red-600 line-through break-all">{renderValue(field, before)}</td>
+                        <td className="py-0.5 pr-2 text-gray-400">→</td>
+                        <td className="py-0.5 text-green-700 break-all">{renderValue(field, after)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+      {/* Action buttons */}
+      <div className="flex space-x-3 pt-4">
+        <button type="button" onClick={onCancel} className="flex-1 px-4 py-2 border rounded-lg border-gray-300 text-gray-700 hover:bg-gray-50 text-sm">취소</button>
+        {outdated.length > 0 && (
+          <button
+            type="button"
+            onClick={() => onSubmit(outdated.map(({ event }) => event.id))}
+            className="flex-1 px-4 py-2 border rounded-lg border-blue-300 text-blue-700 hover:bg-blue-50 text-sm"
+          >
+            모두 적용
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={selectedIds.length === 0}
+          className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm disabled:opacity-50"
+        >
+          선택한 일정에 적용
+        </button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect } from 'react';
+import type { UndoNotice } from '../../../hooks/useCalendar';
+
+interface UndoToastProps {
+  notice: UndoNotice;
+  onUndo: () => void;
+  onDismiss: () => void;
+}
+
+// 토스트가 저절로 사라지기까지의 시간(ms)
+const TOAST_DURATION = 6000;
+
+/**
+ * 일정, 템플릿, 시간표를 삭제한 직후 화면 아래에 잠깐 표시되는 토스트.
+ * '실행 취소'를 누르면 삭제 전으로 되돌립니다. 새 알림이 오면 시간을 다시 잽니다.
+ */
+export default function UndoToast({ notice, onUndo, onDismiss }: UndoToastProps) {
+  useEffect(() => {
+    const timer = window.setTimeout(onDismiss, TOAST_DURATION);
+    return () => window.clearTimeout(timer);
+    // 알림이 바뀔 때만 타이머를 다시 시작합니다.
+  }, [notice.id]);
+
+  return (
+    <div className="fixed bottom-3 left-1/2 -translate-x-1/2 bg-gray-900 text-white px-3 py-2 rounded-lg shadow-lg z-50">
+      <div className="flex items-center space-x-3">
+        <span className="text-xs">{notice.label}</span>
+        <button
+          onClick={onUndo}
+          className="text-xs font-semibold text-blue-300 hover:text-blue-200 cursor-pointer whitespace-nowrap"
+        >
+          실행 취소
+        </button>
+        <button
+          onClick={onDismiss}
+          className="w-4 h-4 flex items-center justify-center text-gray-400 hover:text-white cursor-pointer"
+        >
+          <i className="ri-close-line w-3 h-3 flex items-center justify-center"></i>
+        </button>
+      </div>
+    </div>
+  );
+}
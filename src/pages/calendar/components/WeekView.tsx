@@ -1,112 +1,578 @@
-import { useState } from 'react';
-import { CalendarEvent, Template } from '../../../types/calendar';
+import { useState, useEffect, useRef, useMemo } from 'react';
+import type {
+  CalendarEvent,
+  CalendarSettings,
+  EventException,
+  EventOccurrence,
+  Period,
+  Recurrence,
+  Template
+} from '../../../types/calendar';
+import type { OccurrenceSegment } from '../../../utils/occurrences';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  MINUTES_PER_DAY,
+  addDays,
+  addMinutes,
+  fromMinutes,
+  getDayIndex,
+  getDurationMinutes,
+  isOvernight,
+  parseDateKey,
+  snapMinutes,
+  toDateKey,
+  toMinutes
+} from '../../../utils/time';
+import {
+  describeException,
+  describeRecurrence,
+  expandOccurrences,
+  findConflicts,
+  getConflictingOccurrences,
+  getEventColor,
+  getOccurrenceUrls,
+  getOccurrencesForDate,
+  layoutSegments,
+  rescheduleEvent,
+  resizeOccurrence,
+  shiftEvent,
+  splitAtMidnight,
+  withException,
+  withoutException
+} from '../../../utils/occurrences';
+import {
+  DAY_LABELS,
+  clipToVisibleHours,
+  findBlockedOverlaps,
+  findNearestPeriodIndex,
+  findPeriodIndex,
+  formatBlockedWarning,
+  getBlockedIntervals,
+  getDisplayWeekStart,
+  getPeriodLabel,
+  getPeriodRows,
+  getVisibleDays,
+  getVisibleHours
+} from '../../../utils/calendarSettings';
+import { copyDayEvents, copyEvent, copyWeekEvents, skipExistingCopies } from '../../../utils/eventCopies';
+import type { NewEvent } from '../../../utils/eventCopies';
+import { collectTags, isHiddenByTags } from '../../../utils/tags';
+import { getSnapshotStatuses } from '../../../utils/templateSync';
+import { openEventLinks } from '../../../utils/eventLinks';
+import type { SaveTemplateTarget } from '../../../utils/templateLibrary';
+import { useEventResize } from '../../../hooks/useEventResize';
+import { useRubberBandSelect } from '../../../hooks/useRubberBandSelect';
+import Modal from '../../../components/base/Modal';
+import RecurrenceForm from './RecurrenceForm';
+import OccurrenceExceptionForm from './OccurrenceExceptionForm';
+import ConflictDialog from './ConflictDialog';
+import DuplicateEventForm from './DuplicateEventForm';
+import EventDetailsForm from './EventDetailsForm';
+import EventDrawer from './EventDrawer';
+import type { EventDrawerUpdates } from './EventDrawer';
+import SelectionToolbar from './SelectionToolbar';
+import TagLegend from './TagLegend';
 
 interface WeekViewProps {
   events: CalendarEvent[];
+  /** Templates of the calendar, offered when reassigning selected events and used to flag stale snapshots. */
+  templates: Template[];
   selectedTemplate: Template | null;
   onAddEvent: (event: Omit<CalendarEvent, 'id'>) => void;
+  /** Add several events as one change, used when pasting a day or a week. */
+  onAddEvents: (events: Omit<CalendarEvent, 'id'>[]) => void;
   onDeleteEvent: (eventId: string) => void;
   onUpdateEvent: (eventId: string, updates: Partial<CalendarEvent>) => void;
+  /** Update or delete several events as one change, used for multi-selection. */
+  onUpdateEvents: (changes: { id: string; updates: Partial<CalendarEvent> }[]) => void;
+  onDeleteEvents: (eventIds: string[]) => void;
   onEditTemplate: (template: Template) => void;
+  /** Save the event, with its own links and files, as a new template in the calendar or the library. */
+  onSaveAsTemplate: (event: CalendarEvent, target: SaveTemplateTarget) => void;
+  /** Visible hours or periods, blocked ranges, weekend columns and week start of the selected calendar. */
+  settings: CalendarSettings;
+  /** IDs of the events matching the current search, or null when not searching. */
+  matchedEventIds?: Set<string> | null;
+  /** Dim the events that do not match the search. */
+  dimUnmatched?: boolean;
+  /** Show the week containing this date whenever a new one is passed in. */
+  focusDate?: Date;
+  /** Tags switched off in the legend; events with only these tags are not drawn. */
+  hiddenTags?: Set<string>;
+  onToggleTag?: (tag: string) => void;
 }
 
-const DAYS = ['월', '화', '수', '목', '금', '토', '일'];
-const HOURS = Array.from({ length: 12 }, (_, i) => i + 7); // 7시부터 18시까지
+// 한 시간 행의 높이(CSS 식). 일정 블록의 위치와 높이를 분 단위로 계산할 때 사용합니다.
+const ROW_HEIGHT = '((100vh - 120px) / 12)';
+
+const SNAP_KEY = 'calendar-week-snap';
+
+// 고정 시간(쉬는 시간, 점심시간) 띠의 빗금 배경
+const BLOCKED_STYLE = {
+  backgroundColor: 'rgb(243 244 246)',
+  backgroundImage: 'repeating-linear-gradient(135deg, transparent 0 6px, rgb(229 231 235) 6px 12px)'
+};
+const SNAP_OPTIONS = [5, 10, 15, 30, 60];
+
+/** 일정이 놓일 날짜와 시간. 여러 일정을 한꺼번에 옮기거나 붙여넣을 때 겹침 확인에 씁니다. */
+interface Placement {
+  date: Date;
+  startTime: string;
+  endTime: string;
+}
+
+/** 다른 일정과 겹쳐 사용자의 확인을 기다리는 변경. */
+interface PendingConflict {
+  conflicts: EventOccurrence[];
+  apply: () => void;
+  swap?: () => void;
+}
+
+/**
+ * 새 일정 배치 방식. 'weekly'는 기존처럼 매주 같은 요일에 반복되고,
+ * 'once'는 클릭/드롭한 열의 날짜에만 한 번 생성됩니다.
+ */
+type PlacementMode = 'weekly' | 'once';
+
+/** 복사해 둔 내용. 일정 하나, 한 요일의 일정들, 또는 한 주의 날짜 지정 일정들입니다. */
+type WeekClipboard =
+  | { kind: 'event'; event: CalendarEvent }
+  | { kind: 'day'; date: Date }
+  | { kind: 'week'; weekStart: Date };
+
+/**
+ * 키보드 커서가 가리키는 칸. `row`는 시간 그리드에서 시간 행의 순번, 교시 그리드에서 교시의
+ * 순번이고 `item`은 칸 안에서 초점을 둔 일정의 순번입니다(칸의 일정 수로 나눈 나머지를 씁니다).
+ */
+interface GridCursor {
+  day: number;
+  row: number;
+  item: number;
+}
+
+/**
+ * 빈 칸이나 요일 머리글을 우클릭했을 때 여는 붙여넣기 메뉴의 위치. 빈 칸이면 붙여넣을
+ * 시작 시간(교시 칸이면 종료 시간까지)을 함께 가집니다.
+ */
+interface SlotMenu {
+  x: number;
+  y: number;
+  day: number;
+  startTime?: string;
+  endTime?: string;
+}
 
 export default function WeekView({
   events,
+  templates,
   selectedTemplate,
   onAddEvent,
+  onAddEvents,
   onDeleteEvent,
   onUpdateEvent,
-  onEditTemplate
+  onUpdateEvents,
+  onDeleteEvents,
+  onEditTemplate,
+  onSaveAsTemplate,
+  settings,
+  matchedEventIds = null,
+  dimUnmatched = false,
+  focusDate,
+  hiddenTags = new Set(),
+  onToggleTag = () => {}
 }: WeekViewProps) {
-  const [contextMenu, setContextMenu] = useState<{
-    x: number;
-    y: number;
-    event: CalendarEvent;
-  } | null>(null);
+  // 상세 서랍에 연 일정과 회차 날짜. 일정이 바뀌어도 최신 내용을 보여주도록 ID로 보관합니다.
+  const [drawerTarget, setDrawerTarget] = useState<{ eventId: string; date: string } | null>(null);
+  // 표시 중인 주에 속한 날짜. 주의 시작 요일 설정이 바뀌어도 같은 주를 보여주도록 날짜로 보관합니다.
+  const [weekAnchor, setWeekAnchor] = useState(() => new Date());
+  const [placementMode, setPlacementMode] = useState<PlacementMode>('weekly');
+  // 반복 규칙을 편집 중인 일정
+  const [recurrenceEvent, setRecurrenceEvent] = useState<CalendarEvent | null>(null);
+  // 한 번만 변경할 반복 일정의 발생
+  const [exceptionOccurrence, setExceptionOccurrence] = useState<EventOccurrence | null>(null);
+  // 클릭/드래그로 배치할 때 시작 시간을 맞출 분 단위
+  const [snapStep, setSnapStep] = useState(() => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem(SNAP_KEY) : null;
+    const parsed = saved ? parseInt(saved, 10) : 60;
+    return SNAP_OPTIONS.includes(parsed) ? parsed : 60;
+  });
+  // 일정 블록을 잡은 지점이 블록 시작에서 몇 분 아래인지. 드롭 시 잡은 위치를 유지합니다.
+  const dragOffsetRef = useRef(0);
+  const [pendingConflict, setPendingConflict] = useState<PendingConflict | null>(null);
+  const [clipboard, setClipboard] = useState<WeekClipboard | null>(null);
+  const [slotMenu, setSlotMenu] = useState<SlotMenu | null>(null);
+  // 다른 요일로 복제할 일정
+  const [duplicateEvent, setDuplicateEvent] = useState<CalendarEvent | null>(null);
+  // 장소, 메모, 추가 링크와 첨부 파일을 편집 중인 일정
+  const [detailsEvent, setDetailsEvent] = useState<CalendarEvent | null>(null);
+  // 여러 개 선택한 일정의 ID. 반복 일정은 모든 회차가 함께 선택됩니다.
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [cursor, setCursor] = useState<GridCursor | null>(null);
+  const [isGridFocused, setIsGridFocused] = useState(false);
+  const { rect: selectionRect, startSelection } = useRubberBandSelect(gridRef, (ids, additive) => {
+    setSelectedIds(prev => new Set(additive ? [...prev, ...ids] : ids));
+  });
+  const { preview: resizePreview, startResize, getDisplayEndTime } = useEventResize((occurrence, endTime) => {
+    guardConflicts(parseDateKey(occurrence.date), occurrence.startTime, endTime, occurrence.event.id, () =>
+      onUpdateEvent(occurrence.event.id, resizeOccurrence(occurrence, endTime))
+    );
+  }, snapStep);
+
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(SNAP_KEY, snapStep.toString());
+    }
+  }, [snapStep]);
+
+  // 검색 결과에서 날짜 지정 일정을 고르면 그 주로 이동합니다.
+  useEffect(() => {
+    if (focusDate) setWeekAnchor(focusDate);
+  }, [focusDate]);
 
-  const handleCellClick = (day: number, hour: number) => {
+  const hours = getVisibleHours(settings);
+  const isPeriodGrid = settings.gridMode === 'periods';
+  const visibleDays = getVisibleDays(settings);
+  const weekStart = getDisplayWeekStart(weekAnchor, settings.weekStartsOn);
+  const weekEnd = addDays(weekStart, 6);
+  // 요일 인덱스(0 = 월요일)로 찾는 이번 주 날짜
+  const weekDates = DAY_LABELS.map((_, day) => addDays(weekStart, (day - settings.weekStartsOn + 7) % 7));
+
+  // 템플릿이 삭제되었거나 바뀐 일정. 크기 조절이나 끌어 선택하는 동안 매번 다시 비교하지 않도록 미리 구해 둡니다.
+  const snapshotStatuses = useMemo(() => getSnapshotStatuses(events, templates), [events, templates]);
+
+  // 서랍에 보여줄 회차. 반복 규칙이 바뀌어 그 날짜에 회차가 없으면 일정 자체의 시간을 보여줍니다.
+  const drawerEvent = drawerTarget ? events.find(event => event.id === drawerTarget.eventId) : undefined;
+  const drawerOccurrence: EventOccurrence | null =
+    drawerTarget && drawerEvent
+      ? getOccurrencesForDate([drawerEvent], parseDateKey(drawerTarget.date), { includeCancelled: true })[0] ?? {
+          event: drawerEvent,
+          date: drawerTarget.date,
+          day: getDayIndex(parseDateKey(drawerTarget.date)),
+          startTime: drawerEvent.startTime,
+          endTime: drawerEvent.endTime
+        }
+      : null;
+  const gridColumns = { gridTemplateColumns: `repeat(${visibleDays.length + 1}, minmax(0, 1fr))` };
+  const todayKey = toDateKey(new Date());
+  // 취소된 회차도 흐리게 표시하기 위해 함께 펼칩니다.
+  // 전날 밤에 시작해 이번 주 첫날로 넘어오는 일정도 그리기 위해 하루 앞부터 펼칩니다.
+  // 범례에서 숨긴 태그의 일정은 그리지 않습니다. 겹침 확인에는 그대로 포함됩니다.
+  const weekOccurrences = expandOccurrences(events, addDays(weekStart, -1), weekEnd, { includeCancelled: true }).filter(
+    occurrence => !isHiddenByTags(occurrence.event.template.tags, hiddenTags)
+  );
+
+  const goToPrevWeek = () => setWeekAnchor(prev => addDays(prev, -7));
+  const goToNextWeek = () => setWeekAnchor(prev => addDays(prev, 7));
+  const goToThisWeek = () => setWeekAnchor(new Date());
+
+  /** 배치 방식이 '이 날짜만'이면 해당 열의 날짜를 반환합니다. */
+  const getPlacementDate = (day: number) =>
+    placementMode === 'once' ? toDateKey(weekDates[day]) : undefined;
+
+  /**
+   * 포인터 위치를 자정 기준 분으로 환산합니다. 기준은 이벤트를 받은 시간 칸이며,
+   * 일정 블록 위에서 놓아 아래 칸까지 내려간 경우에도 60분을 넘겨 그대로 계산됩니다.
+   */
+  const getPointerMinutes = (e: React.MouseEvent, hour: number) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return hour * 60 + ((e.clientY - rect.top) / rect.height) * 60;
+  };
+
+  /**
+   * 배치하려는 시간이 해당 날짜의 다른 일정과 겹치면 확인 창을 띄우고, 겹치지 않으면 바로 적용합니다.
+   * 반복 일정은 현재 보고 있는 주의 날짜를 기준으로 검사합니다. 쉬는 시간 같은 고정 시간과 겹치면
+   * 먼저 배치할지 묻고, 취소하면 아무것도 바꾸지 않습니다.
+   */
+  const guardConflicts = (
+    date: Date,
+    startTime: string,
+    endTime: string,
+    ignoreEventId: string | undefined,
+    apply: () => void,
+    swap?: () => void
+  ) => {
+    const blocked = findBlockedOverlaps(settings.blockedRanges, startTime, endTime);
+    if (blocked.length > 0 && !window.confirm(formatBlockedWarning(blocked))) return;
+    const conflicts = findConflicts(events, date, startTime, endTime, ignoreEventId);
+    if (conflicts.length === 0) {
+      apply();
+      return;
+    }
+    setPendingConflict({ conflicts, apply, swap: conflicts.length === 1 ? swap : undefined });
+  };
+
+  /**
+   * 여러 일정을 한꺼번에 옮기기 전에 고정 시간과 다른 일정과의 겹침을 한 번에 확인합니다.
+   * 함께 옮기는 일정(`ignoreEventIds`)끼리는 겹침으로 보지 않으며, 확인을 받으면 한 번에 적용합니다.
+   */
+  const guardBatchConflicts = (placements: Placement[], ignoreEventIds: Set<string>, apply: () => void) => {
+    const blocked = settings.blockedRanges.filter(range =>
+      placements.some(({ startTime, endTime }) => findBlockedOverlaps([range], startTime, endTime).length > 0)
+    );
+    if (blocked.length > 0 && !window.confirm(formatBlockedWarning(blocked))) return;
+    const others = events.filter(event => !ignoreEventIds.has(event.id));
+    const conflicts = new Map<string, EventOccurrence>();
+    placements.forEach(({ date, startTime, endTime }) =>
+      findConflicts(others, date, startTime, endTime).forEach(occurrence =>
+        conflicts.set(`${occurrence.event.id}-${occurrence.date}`, occurrence)
+      )
+    );
+    if (conflicts.size === 0) {
+      apply();
+      return;
+    }
+    setPendingConflict({ conflicts: [...conflicts.values()], apply });
+  };
+
+  const resolveConflict = (action: 'apply' | 'swap') => {
+    if (!pendingConflict) return;
+    if (action === 'swap' && pendingConflict.swap) {
+      pendingConflict.swap();
+    } else {
+      pendingConflict.apply();
+    }
+    setPendingConflict(null);
+  };
+
+  /** 템플릿을 배치합니다. 종료 시간을 주지 않으면 템플릿 길이만큼 이어집니다. */
+  const placeTemplate = (
+    template: Template,
+    day: number,
+    startTime: string,
+    endTime = addMinutes(startTime, template.duration)
+  ) => {
+    guardConflicts(weekDates[day], startTime, endTime, undefined, () =>
+      onAddEvent({
+        templateId: template.id,
+        template,
+        startTime,
+        endTime,
+        day,
+        date: getPlacementDate(day)
+      })
+    );
+  };
+
+  const handleCellClick = (e: React.MouseEvent, day: number, hour: number) => {
+    setSelectedIds(new Set());
+    if (!selectedTemplate) return;
+    placeTemplate(selectedTemplate, day, fromMinutes(snapMinutes(getPointerMinutes(e, hour), snapStep)));
+  };
+
+  /** 교시 칸을 클릭하면 선택한 템플릿을 교시의 시작/종료 시간 그대로 배치합니다. */
+  const handlePeriodClick = (day: number, period: Period) => {
+    setSelectedIds(new Set());
     if (!selectedTemplate) return;
-    const startTime = `${hour.toString().padStart(2, '0')}:00`;
-    const endHour = hour + Math.floor(selectedTemplate.duration / 60);
-    const endMinute = selectedTemplate.duration % 60;
-    const endTime = `${endHour.toString().padStart(2, '0')}:${endMinute.toString().padStart(2, '0')}`;
-    onAddEvent({
-      templateId: selectedTemplate.id,
-      template: selectedTemplate,
-      startTime,
-      endTime,
-      day
+    placeTemplate(selectedTemplate, day, period.startTime, period.endTime);
+  };
+
+  const handleEventContextMenu = (e: React.MouseEvent, occurrence: EventOccurrence) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setSlotMenu(null);
+    setDrawerTarget({ eventId: occurrence.event.id, date: occurrence.date });
+  };
+
+  /**
+   * 서랍에서 고친 요일(날짜), 시간과 색을 적용합니다. 시간이 바뀌면 겹치는 일정을 먼저 확인하고,
+   * 서랍은 옮긴 날짜의 회차를 계속 보여줍니다.
+   */
+  const handleDrawerSave = (updates: EventDrawerUpdates) => {
+    if (!drawerOccurrence) return;
+    const { event } = drawerOccurrence;
+    const moved =
+      updates.day !== event.day ||
+      updates.date !== event.date ||
+      updates.startTime !== event.startTime ||
+      updates.endTime !== event.endTime;
+    if (!moved) {
+      onUpdateEvent(event.id, updates);
+      return;
+    }
+    const targetDate = updates.date ? parseDateKey(updates.date) : weekDates[updates.day];
+    // 반복 일정의 요일이나 시간이 바뀌면 회차 예외도 같은 만큼 옮겨, 휴강/변경한 회차가 제자리에 남도록 합니다.
+    const days = Math.round((targetDate.getTime() - weekDates[event.day].getTime()) / 86400000);
+    const changes =
+      event.date || updates.date
+        ? updates
+        : { ...updates, ...rescheduleEvent(event, days, updates.startTime, updates.endTime) };
+    // 겹침 확인을 취소하면 일정이 그대로이므로 서랍도 원래 회차를 계속 보여줍니다.
+    guardConflicts(targetDate, updates.startTime, updates.endTime, event.id, () => {
+      onUpdateEvent(event.id, changes);
+      setDrawerTarget({ eventId: event.id, date: toDateKey(targetDate) });
     });
   };
 
-  const handleEventClick = async (event: CalendarEvent) => {
-    const template = event.template;
-
-    // 1. 첨부파일 열기
-    if (template.attachments && template.attachments.length > 0) {
-      for (const att of template.attachments) {
-        if (att.fileData) {
-          try {
-            const response = await fetch(att.fileData);
-            const blob = await response.blob();
-            const objectUrl = URL.createObjectURL(blob);
-            window.open(objectUrl, '_blank');
-          } catch {
-            window.open(att.fileData, '_blank');
-          }
-        } else if ((att as any).file && (att as any).file instanceof File) {
-          const objectUrl = URL.createObjectURL((att as any).file);
-          window.open(objectUrl, '_blank');
-        }
-      }
-    } else if ((template as any).fileData) {
-      try {
-        const response = await fetch((template as any).fileData);
-        const blob = await response.blob();
-        const objectUrl = URL.createObjectURL(blob);
-        window.open(objectUrl, '_blank');
-      } catch {
-        window.open((template as any).fileData, '_blank');
+  const handleSaveAsTemplate = (target: SaveTemplateTarget) => {
+    if (drawerOccurrence) {
+      onSaveAsTemplate(drawerOccurrence.event, target);
+    }
+  };
+
+  const handleEditRecurrence = () => {
+    if (drawerOccurrence) {
+      setRecurrenceEvent(drawerOccurrence.event);
+    }
+  };
+
+  const handleRecurrenceSubmit = (recurrence: Recurrence | undefined) => {
+    if (recurrenceEvent) {
+      onUpdateEvent(recurrenceEvent.id, { recurrence });
+    }
+    setRecurrenceEvent(null);
+  };
+
+  /** 원래 날짜를 기준으로 이번 회차의 예외를 저장합니다. */
+  const saveException = (occurrence: EventOccurrence, exception: EventException) => {
+    onUpdateEvent(occurrence.event.id, { exceptions: withException(occurrence.event, exception) });
+  };
+
+  const handleCancelOccurrence = () => {
+    if (drawerOccurrence) {
+      const originalDate = drawerOccurrence.exception?.date ?? drawerOccurrence.date;
+      saveException(drawerOccurrence, { date: originalDate, cancelled: true });
+    }
+  };
+
+  const handleEditOccurrence = () => {
+    if (drawerOccurrence) {
+      setExceptionOccurrence(drawerOccurrence);
+    }
+  };
+
+  const handleRestoreOccurrence = () => {
+    if (drawerOccurrence?.exception) {
+      const { event, exception } = drawerOccurrence;
+      onUpdateEvent(event.id, { exceptions: withoutException(event, exception.date) });
+      // 옮긴 회차를 되돌리면 원래 날짜의 회차를 보여줍니다.
+      setDrawerTarget({ eventId: event.id, date: exception.date });
+    }
+  };
+
+  const handleExceptionSubmit = (exception: EventException) => {
+    if (exceptionOccurrence) {
+      saveException(exceptionOccurrence, exception);
+      if (exceptionOccurrence.event.id === drawerTarget?.eventId) {
+        setDrawerTarget({ eventId: exceptionOccurrence.event.id, date: exception.newDate ?? exception.date });
       }
-    } else if ((template as any).file && (template as any).file instanceof File) {
-      const objectUrl = URL.createObjectURL((template as any).file);
-      window.open(objectUrl, '_blank');
     }
+    setExceptionOccurrence(null);
+  };
 
-    // 2. URL도 열기
-    if (template.urls && template.urls.length > 0) {
-      const validUrls = template.urls.filter(url => url.trim());
-      validUrls.forEach(url => {
-        window.open(url, '_blank');
-      });
+  const handleDeleteEventFromDrawer = () => {
+    if (drawerOccurrence) {
+      onDeleteEvent(drawerOccurrence.event.id);
+      setDrawerTarget(null);
+    }
+  };
+
+  const handleClickOutside = () => {
+    setSlotMenu(null);
+  };
+
+  const handleCopyEvent = () => {
+    if (drawerOccurrence) {
+      setClipboard({ kind: 'event', event: drawerOccurrence.event });
+    }
+  };
+
+  const handleDuplicateEvent = () => {
+    if (drawerOccurrence) {
+      setDuplicateEvent(drawerOccurrence.event);
+    }
+  };
+
+  const handleEditDetails = () => {
+    if (drawerOccurrence) {
+      setDetailsEvent(drawerOccurrence.event);
+    }
+  };
+
+  const handleDetailsSubmit = (details: Pick<CalendarEvent, 'location' | 'notes' | 'extraUrls' | 'attachments'>) => {
+    if (detailsEvent) {
+      onUpdateEvent(detailsEvent.id, details);
     }
+    setDetailsEvent(null);
+  };
+
+  /**
+   * 복사본을 한꺼번에 추가합니다. 이미 있는 일정과 똑같은 복사본은 빼고, 나머지가 고정 시간이나
+   * 다른 일정과 겹치면 한 번에 확인을 받습니다.
+   */
+  const addCopies = (copies: NewEvent[]) => {
+    const newCopies = skipExistingCopies(events, copies);
+    if (newCopies.length === 0) return;
+    const placements = newCopies.map(copy => ({
+      date: copy.date ? parseDateKey(copy.date) : weekDates[copy.day],
+      startTime: copy.startTime,
+      endTime: copy.endTime
+    }));
+    guardBatchConflicts(placements, new Set(), () => onAddEvents(newCopies));
+  };
+
+  /** 날짜가 지정된 일정은 이번 주의 해당 요일 날짜로, 반복 일정은 요일만 바꿔 복제합니다. */
+  const handleDuplicateSubmit = (days: number[]) => {
+    if (duplicateEvent) {
+      addCopies(
+        days.map(day =>
+          copyEvent(duplicateEvent, { day, date: duplicateEvent.date ? toDateKey(weekDates[day]) : undefined })
+        )
+      );
+    }
+    setDuplicateEvent(null);
+  };
+
+  /** 복사한 일정이 있을 때 빈 칸을 우클릭하면 그 시간에 붙여넣는 메뉴를 엽니다. */
+  const handleSlotContextMenu = (e: React.MouseEvent, day: number, startTime: string, endTime?: string) => {
+    if (clipboard?.kind !== 'event') return;
+    e.preventDefault();
+    e.stopPropagation();
+    setSlotMenu({ x: e.clientX, y: e.clientY, day, startTime, endTime });
   };
 
-  const handleEventContextMenu = (e: React.MouseEvent, event: CalendarEvent) => {
+  /** 요일 머리글을 우클릭하면 그 요일을 복사하거나 복사한 요일을 붙여넣는 메뉴를 엽니다. */
+  const handleDayHeaderContextMenu = (e: React.MouseEvent, day: number) => {
     e.preventDefault();
     e.stopPropagation();
-    setContextMenu({ x: e.clientX, y: e.clientY, event });
+    setSlotMenu({ x: e.clientX, y: e.clientY, day });
   };
 
-  const handleEditEvent = () => {
-    if (contextMenu) {
-      onEditTemplate(contextMenu.event.template);
-      setContextMenu(null);
+  /** 복사한 일정을 메뉴를 연 칸의 시간에 붙여넣습니다. 길이는 원래 일정과 같습니다. */
+  const handlePasteEvent = () => {
+    if (!slotMenu?.startTime || clipboard?.kind !== 'event') return;
+    const { event } = clipboard;
+    const { day, startTime } = slotMenu;
+    const endTime = slotMenu.endTime ?? addMinutes(startTime, getDurationMinutes(event.startTime, event.endTime));
+    const date = event.date ? toDateKey(weekDates[day]) : getPlacementDate(day);
+    guardConflicts(weekDates[day], startTime, endTime, undefined, () =>
+      onAddEvent(copyEvent(event, { day, date, startTime, endTime }))
+    );
+    setSlotMenu(null);
+  };
+
+  const handleCopyDay = () => {
+    if (slotMenu) {
+      setClipboard({ kind: 'day', date: weekDates[slotMenu.day] });
+      setSlotMenu(null);
     }
   };
 
-  const handleDeleteEventFromContext = () => {
-    if (contextMenu) {
-      onDeleteEvent(contextMenu.event.id);
-      setContextMenu(null);
+  const handlePasteDay = () => {
+    if (slotMenu && clipboard?.kind === 'day') {
+      addCopies(copyDayEvents(events, clipboard.date, weekDates[slotMenu.day]));
+      setSlotMenu(null);
     }
   };
 
-  const handleClickOutside = () => {
-    setContextMenu(null);
+  // 날짜가 지정된 일정이 있는 주만 통째로 복사할 수 있습니다. 반복 일정은 이미 매주 표시됩니다.
+  const canCopyWeek = copyWeekEvents(events, weekStart, weekStart).length > 0;
+  const canPasteWeek = clipboard?.kind === 'week' && toDateKey(clipboard.weekStart) !== toDateKey(weekStart);
+
+  const handlePasteWeek = () => {
+    if (clipboard?.kind === 'week') {
+      addCopies(copyWeekEvents(events, clipboard.weekStart, weekStart));
+    }
   };
 
   const handleDrop = (e: React.DragEvent, day: number, hour: number) => {
@@ -114,17 +580,7 @@ export default function WeekView({
     const templateData = e.dataTransfer.getData('template');
     if (templateData) {
       const template: Template = JSON.parse(templateData);
-      const startTime = `${hour.toString().padStart(2, '0')}:00`;
-      const endHour = hour + Math.floor(template.duration / 60);
-      const endMinute = template.duration % 60;
-      const endTime = `${endHour.toString().padStart(2, '0')}:${endMinute.toString().padStart(2, '0')}`;
-      onAddEvent({
-        templateId: template.id,
-        template,
-        startTime,
-        endTime,
-        day
-      });
+      placeTemplate(template, day, fromMinutes(snapMinutes(getPointerMinutes(e, hour), snapStep)));
       return;
     }
 
@@ -133,53 +589,612 @@ export default function WeekView({
       const eventId = JSON.parse(eventData);
       const event = events.find(e => e.id === eventId);
       if (event) {
-        const startTime = `${hour.toString().padStart(2, '0')}:00`;
-        const endHour = hour + Math.floor(event.template.duration / 60);
-        const endMinute = event.template.duration % 60;
-        const endTime = `${endHour.toString().padStart(2, '0')}:${endMinute.toString().padStart(2, '0')}`;
-        onUpdateEvent(eventId, { day, startTime, endTime });
+        const start = snapMinutes(getPointerMinutes(e, hour) - dragOffsetRef.current, snapStep);
+        // 자정 이후 조각을 위쪽으로 끌어 시작이 전날로 넘어가면 전날 열에 놓은 것으로 봅니다.
+        const targetDate = start < 0 ? addDays(weekDates[day], -1) : weekDates[day];
+        const startTime = fromMinutes(start);
+        // 크기를 조절한 일정도 길이를 유지하도록 템플릿이 아닌 일정 자체의 길이를 사용합니다.
+        moveEvent(event, targetDate, startTime, addMinutes(startTime, getDurationMinutes(event.startTime, event.endTime)));
       }
     }
   };
 
-  const getEventForCell = (day: number, hour: number) => {
-    return events.find(event => {
-      const eventStartHour = parseInt(event.startTime.split(':')[0]);
-      const eventEndHour = parseInt(event.endTime.split(':')[0]);
-      const eventEndMinute = parseInt(event.endTime.split(':')[1]);
-      const actualEndHour = eventEndMinute > 0 ? eventEndHour + 1 : eventEndHour;
-      return event.day === day && hour >= eventStartHour && hour < actualEndHour;
+  /** 교시 칸에 놓은 템플릿과 일정은 교시의 시작/종료 시간을 그대로 따릅니다. */
+  const handlePeriodDrop = (e: React.DragEvent, day: number, period: Period) => {
+    e.preventDefault();
+    const templateData = e.dataTransfer.getData('template');
+    if (templateData) {
+      const template: Template = JSON.parse(templateData);
+      placeTemplate(template, day, period.startTime, period.endTime);
+      return;
+    }
+
+    const eventData = e.dataTransfer.getData('event');
+    if (eventData) {
+      const event = events.find(e => e.id === JSON.parse(eventData));
+      if (event) {
+        moveEvent(event, weekDates[day], period.startTime, period.endTime);
+      }
+    }
+  };
+
+  /**
+   * 일정을 다른 날짜와 시간으로 옮깁니다. 겹치는 일정이 있으면 먼저 확인을 받습니다.
+   * 여러 일정을 옮길 때와 같이 `rescheduleEvent`로 옮겨, 반복 일정의 회차 예외도 함께 옮겨집니다.
+   */
+  const moveEvent = (event: CalendarEvent, targetDate: Date, startTime: string, endTime: string) => {
+    const sourceDate = event.date ? parseDateKey(event.date) : weekDates[event.day];
+    const days = Math.round((targetDate.getTime() - sourceDate.getTime()) / 86400000);
+    // 선택한 일정 중 하나를 끌었다면 선택한 일정 모두를 같은 만큼 옮깁니다.
+    if (selectedIds.has(event.id) && selectedIds.size > 1) {
+      shiftSelection(days * MINUTES_PER_DAY + toMinutes(startTime) - toMinutes(event.startTime));
+      return;
+    }
+    // 날짜가 지정된 일정은 놓은 열의 날짜로 옮기고, 반복 일정은 요일만 바꿉니다.
+    const move = () => onUpdateEvent(event.id, rescheduleEvent(event, days, startTime, endTime));
+    // 자리 바꾸기: 겹친 일정을 옮긴 일정의 원래 요일과 시작 시간으로 보냅니다.
+    const swap = () => {
+      const other = findConflicts(events, targetDate, startTime, endTime, event.id)[0]?.event;
+      move();
+      if (!other) return;
+      const otherEnd = addMinutes(event.startTime, getDurationMinutes(other.startTime, other.endTime));
+      const otherSource = other.date ? parseDateKey(other.date) : weekDates[other.day];
+      const otherDays = Math.round((sourceDate.getTime() - otherSource.getTime()) / 86400000);
+      onUpdateEvent(other.id, rescheduleEvent(other, otherDays, event.startTime, otherEnd));
+    };
+    guardConflicts(targetDate, startTime, endTime, event.id, move, swap);
+  };
+
+  /** 선택한 일정을 토글합니다. Shift/Ctrl(⌘)을 누른 채 일정을 클릭할 때 사용합니다. */
+  const toggleSelected = (eventId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(eventId)) {
+        next.delete(eventId);
+      } else {
+        next.add(eventId);
+      }
+      return next;
+    });
+  };
+
+  /** 현재 일정 목록에 남아 있는 선택 일정. */
+  const getSelectedEvents = () => events.filter(event => selectedIds.has(event.id));
+
+  /**
+   * 선택한 일정을 모두 같은 분만큼 옮깁니다. 하루를 넘기면 요일(날짜)도 바뀝니다.
+   * 옮길 자리가 고정 시간이나 선택하지 않은 일정과 겹치면 먼저 확인을 받습니다.
+   */
+  const shiftSelection = (minutes: number) => {
+    const changes = getSelectedEvents().map(event => ({ event, updates: shiftEvent(event, minutes) }));
+    const placements = changes.map(({ event, updates }) => {
+      const { day = event.day, date, startTime = event.startTime, endTime = event.endTime } = updates;
+      return { date: date ? parseDateKey(date) : weekDates[day], startTime, endTime };
     });
+    guardBatchConflicts(placements, selectedIds, () =>
+      onUpdateEvents(changes.map(({ event, updates }) => ({ id: event.id, updates })))
+    );
+  };
+
+  // 템플릿 사본은 그대로 두고 일정의 색만 바꿔, 템플릿과 달라진 일정으로 표시되지 않도록 합니다.
+  const recolorSelection = (color: string) => {
+    onUpdateEvents(getSelectedEvents().map(event => ({ id: event.id, updates: { color } })));
+  };
+
+  /** 선택한 일정을 다른 템플릿의 복사본으로 바꿉니다. 시간과 요일은 그대로 둡니다. */
+  const reassignSelection = (template: Template) => {
+    onUpdateEvents(
+      getSelectedEvents().map(event => ({ id: event.id, updates: { templateId: template.id, template: { ...template } } }))
+    );
+  };
+
+  const deleteSelection = () => {
+    onDeleteEvents(getSelectedEvents().map(event => event.id));
+    setSelectedIds(new Set());
+  };
+
+  const isDialogOpen = !!(recurrenceEvent || exceptionOccurrence || duplicateEvent || detailsEvent || pendingConflict);
+
+  /**
+   * 창에서 받은 키를 처리하고, 처리했으면 true를 반환합니다. Esc는 상세 서랍을 먼저 닫고(서랍 위에 대화 상자가
+   * 열려 있으면 아무것도 닫지 않습니다), 서랍이 없으면 선택을 해제합니다. 선택한 일정은 방향키로 옮기고
+   * (위/아래: 배치 시간 단위, 좌/우: 하루) Delete로 지웁니다. 최신 상태를 읽도록 렌더링마다 바꿔 둡니다.
+   */
+  const windowKeyDownRef = useRef<(e: KeyboardEvent) => boolean>(() => false);
+  windowKeyDownRef.current = (e: KeyboardEvent) => {
+    if (e.key === 'Escape' && drawerTarget) {
+      if (!isDialogOpen) setDrawerTarget(null);
+      return true;
+    }
+    if (selectedIds.size === 0) return false;
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return false;
+    const moves: Record<string, number> = {
+      ArrowUp: -snapStep,
+      ArrowDown: snapStep,
+      ArrowLeft: -MINUTES_PER_DAY,
+      ArrowRight: MINUTES_PER_DAY
+    };
+    if (e.key in moves) {
+      e.preventDefault();
+      shiftSelection(moves[e.key]);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      deleteSelection();
+    } else if (e.key === 'Escape') {
+      setSelectedIds(new Set());
+    } else {
+      return false;
+    }
+    return true;
+  };
+
+  // 페이지의 단축키보다 먼저 받도록 캡처 단계에서 한 번만 등록하고, 처리한 키는 더 전달하지 않습니다.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (windowKeyDownRef.current(e)) e.stopPropagation();
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  // 자정을 넘는 일정은 두 날짜 열에 나눠 그립니다.
+  const weekSegments = weekOccurrences
+    .flatMap(occurrence => splitAtMidnight(occurrence, getDisplayEndTime(occurrence)))
+    .filter(segment => segment.date >= toDateKey(weekStart) && segment.date <= toDateKey(weekEnd));
+
+  /** 표시 시간 범위 안으로 잘라낸 조각의 시작/종료(분). 범위 밖의 조각은 null입니다. */
+  const getVisibleRange = (segment: OccurrenceSegment) => clipToVisibleHours(segment.start, segment.end, settings);
+
+  /**
+   * 해당 요일의 해당 시간 칸에서 시작하는 일정 조각들. 첫 시간보다 일찍 시작하는 조각은 첫 칸에서
+   * 시작하는 것으로 봅니다. 취소된 회차는 뒤에 그려집니다.
+   */
+  const getSegmentsStartingInCell = (day: number, hour: number) => {
+    return weekSegments
+      .filter(segment => {
+        const range = segment.day === day ? getVisibleRange(segment) : null;
+        return range !== null && Math.floor(range.start / 60) === hour;
+      })
+      .sort((a, b) => Number(!!a.occurrence.cancelled) - Number(!!b.occurrence.cancelled));
+  };
+
+  // 고정 시간은 매일 같은 시간에 빗금 띠로 표시합니다.
+  const blockedIntervals = getBlockedIntervals(settings.blockedRanges);
+
+  /** 시간 칸에 걸친 고정 시간 띠. 위치와 높이는 칸 높이에 대한 비율(0–1)입니다. */
+  const getBlockedBandsInCell = (hour: number) =>
+    blockedIntervals
+      .filter(interval => interval.start < (hour + 1) * 60 && interval.end > hour * 60)
+      .map(interval => {
+        const start = Math.max(interval.start, hour * 60);
+        const end = Math.min(interval.end, (hour + 1) * 60);
+        return {
+          interval,
+          top: (start - hour * 60) / 60,
+          height: (end - start) / 60,
+          // 이름은 띠가 시작하는 칸(또는 첫 시간 칸)에만 씁니다.
+          showLabel: interval.start >= hour * 60 || hour === hours[0]
+        };
+      });
+
+  /**
+   * 교시 그리드에서 해당 요일의 교시 칸에 넣을 일정 조각들. 여러 교시에 걸친 조각은 처음 겹치는 교시에만 두고,
+   * 어느 교시와도 겹치지 않는 조각은 가장 가까운 교시에 둡니다.
+   */
+  const getSegmentsInPeriod = (day: number, periodIndex: number) =>
+    weekSegments
+      .filter(segment => segment.day === day && findNearestPeriodIndex(settings.periods, segment.start, segment.end) === periodIndex)
+      .sort((a, b) => a.start - b.start || Number(!!a.occurrence.cancelled) - Number(!!b.occurrence.cancelled));
+
+  // 겹치는 일정은 같은 칸의 너비를 나눠 나란히 표시하고 충돌 표시를 합니다.
+  const weekLayout = layoutSegments(weekSegments);
+  const conflictingOccurrences = getConflictingOccurrences(weekOccurrences);
+
+  /** 겹치는 일정 그룹 안에서 차지할 가로 위치와 너비. */
+  const getEventColumnStyle = (segment: OccurrenceSegment) => {
+    const { column, columns } = weekLayout.get(segment) ?? { column: 0, columns: 1 };
+    return {
+      left: `calc(${(column / columns) * 100}% + 2px)`,
+      width: `calc(${100 / columns}% - 4px)`
+    };
+  };
+
+  /** 시작 칸 위쪽에서부터의 오프셋(시간 단위, 소수). */
+  const getEventOffset = (segment: OccurrenceSegment) => ((getVisibleRange(segment)?.start ?? 0) % 60) / 60;
+
+  /** 보이는 일정 길이(시간 단위, 소수). 너무 짧은 일정도 알아볼 수 있도록 최소 15분 높이로 그립니다. */
+  const getEventSpan = (segment: OccurrenceSegment) => {
+    const range = getVisibleRange(segment);
+    const duration = range ? range.end - range.start : 0;
+    return Math.max(15, duration) / 60;
   };
 
-  const isEventStart = (event: CalendarEvent, hour: number) => {
-    const eventStartHour = parseInt(event.startTime.split(':')[0]);
-    return hour === eventStartHour;
+  /** 커서 칸에 있는 일정 조각들. */
+  const getCursorSegments = ({ day, row }: GridCursor) =>
+    isPeriodGrid ? getSegmentsInPeriod(day, row) : getSegmentsStartingInCell(day, hours[row]);
+
+  const rowCount = isPeriodGrid ? settings.periods.length : hours.length;
+  // 설정이 바뀌어 커서가 그리드 밖으로 나가면 첫 칸으로 돌아갑니다.
+  const activeCursor =
+    cursor && visibleDays.includes(cursor.day) && cursor.row < rowCount
+      ? cursor
+      : { day: visibleDays[0], row: 0, item: 0 };
+  const cursorSegments = rowCount > 0 && visibleDays.length > 0 ? getCursorSegments(activeCursor) : [];
+  const focusedSegment =
+    isGridFocused && cursorSegments.length > 0 ? cursorSegments[activeCursor.item % cursorSegments.length] : undefined;
+  const isCursorCell = (day: number, row: number) =>
+    isGridFocused && activeCursor.day === day && activeCursor.row === row;
+
+  // 커서가 움직이면 해당 칸이 보이도록 스크롤합니다.
+  useEffect(() => {
+    if (!cursor) return;
+    gridRef.current
+      ?.querySelector(`[data-cell="${cursor.day}-${cursor.row}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [cursor]);
+
+  /**
+   * 그리드 키보드 조작. 방향키로 칸을 옮기고, Space로 칸 안의 다음 일정에 초점을 두며,
+   * Enter로 선택한 템플릿을 배치하거나(템플릿이 없으면 초점 일정을 열고) Delete로 초점 일정을 지웁니다.
+   * 여러 일정을 선택한 동안에는 방향키와 Delete가 선택한 일정에 적용되므로 여기서는 처리하지 않습니다.
+   */
+  const handleGridKeyDown = (e: React.KeyboardEvent) => {
+    if (selectedIds.size > 0 || e.ctrlKey || e.metaKey || e.altKey) return;
+    if (rowCount === 0 || visibleDays.length === 0) return;
+    const column = visibleDays.indexOf(activeCursor.day);
+    const moveTo = (nextColumn: number, nextRow: number) =>
+      setCursor({
+        day: visibleDays[Math.min(visibleDays.length - 1, Math.max(0, nextColumn))],
+        row: Math.min(rowCount - 1, Math.max(0, nextRow)),
+        item: 0
+      });
+    const focused = cursorSegments.length > 0 ? cursorSegments[activeCursor.item % cursorSegments.length] : undefined;
+    switch (e.key) {
+      case 'ArrowLeft':
+        moveTo(column - 1, activeCursor.row);
+        break;
+      case 'ArrowRight':
+        moveTo(column + 1, activeCursor.row);
+        break;
+      case 'ArrowUp':
+        moveTo(column, activeCursor.row - 1);
+        break;
+      case 'ArrowDown':
+        moveTo(column, activeCursor.row + 1);
+        break;
+      case ' ':
+        setCursor({ ...activeCursor, item: activeCursor.item + 1 });
+        break;
+      case 'Enter':
+        if (selectedTemplate) {
+          const period = settings.periods[activeCursor.row];
+          if (isPeriodGrid) {
+            placeTemplate(selectedTemplate, activeCursor.day, period.startTime, period.endTime);
+          } else {
+            placeTemplate(selectedTemplate, activeCursor.day, fromMinutes(hours[activeCursor.row] * 60));
+          }
+        } else if (focused && !focused.occurrence.cancelled) {
+          openEventLinks(focused.occurrence.event, getOccurrenceUrls(focused.occurrence));
+        }
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (focused) onDeleteEvent(focused.occurrence.event.id);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
   };
 
-  const getEventHeight = (event: CalendarEvent) => {
-    const startHour = parseInt(event.startTime.split(':')[0]);
-    const endHour = parseInt(event.endTime.split(':')[0]);
-    const endMinute = parseInt(event.endTime.split(':')[1]);
-    const startMinutes = startHour * 60;
-    const endMinutes = endHour * 60 + endMinute;
-    const durationHours = (endMinutes - startMinutes) / 60;
-    return Math.max(1, Math.ceil(durationHours));
+  /**
+   * 일정 조각 블록. 시간 그리드에서는 시작 시간과 길이에 맞춰 칸 위에 겹쳐 그리고,
+   * 교시 그리드(`inPeriod`)에서는 교시 칸 안에 차례로 쌓으며 크기 조절 손잡이를 두지 않습니다.
+   */
+  const renderSegment = (segment: OccurrenceSegment, inPeriod = false) => {
+    const cellOccurrence = segment.occurrence;
+    const cellEvent = cellOccurrence.event;
+    const isFocused = segment === focusedSegment;
+    const isMatched = matchedEventIds?.has(cellEvent.id) ?? false;
+    const snapshotStatus = snapshotStatuses.get(cellEvent.id);
+    return (
+      <div
+        key={`${cellEvent.id}-${cellOccurrence.date}-${segment.date}`}
+        className={`${inPeriod ? 'relative mb-1 last:mb-0' : 'absolute'} p-1 rounded text-white text-xs font-medium group z-10 overflow-hidden ${
+          segment.continued ? 'rounded-t-none' : ''
+        } ${segment.continues ? 'rounded-b-none' : ''} ${
+          cellOccurrence.cancelled ? 'opacity-40 line-through border border-dashed border-white' : 'cursor-move'
+        } ${
+          selectedIds.has(cellEvent.id)
+            ? 'outline outline-2 outline-offset-1 outline-blue-600'
+            : isFocused
+              ? 'outline outline-2 outline-offset-1 outline-dashed outline-gray-900'
+              : ''
+        } ${
+          conflictingOccurrences.has(cellOccurrence)
+            ? 'ring-2 ring-red-500'
+            : cellOccurrence.exception && !cellOccurrence.cancelled
+              ? 'ring-2 ring-amber-400'
+              : ''
+        } ${isMatched ? 'shadow-[0_0_0_3px_#facc15]' : matchedEventIds && dimUnmatched ? 'opacity-20' : ''}`}
+        style={
+          inPeriod
+            ? { backgroundColor: getEventColor(cellEvent) }
+            : {
+                ...getEventColumnStyle(segment),
+                backgroundColor: getEventColor(cellEvent),
+                height: `calc(${getEventSpan(segment)} * ${ROW_HEIGHT} - 2px)`,
+                top: `calc(${getEventOffset(segment)} * ${ROW_HEIGHT} + 1px)`
+              }
+        }
+        data-event-id={cellEvent.id}
+        draggable={!cellOccurrence.cancelled && !resizePreview}
+        onDragStart={e => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          const rowHeight = e.currentTarget.parentElement?.getBoundingClientRect().height || rect.height;
+          // 자정 이후 조각을 잡았다면 전날 부분의 길이도 더해 시작 시간을 기준으로 맞춥니다.
+          const before = segment.continued ? MINUTES_PER_DAY - toMinutes(cellOccurrence.startTime) : 0;
+          dragOffsetRef.current = before + ((e.clientY - rect.top) / rowHeight) * 60;
+          e.dataTransfer.setData('event', JSON.stringify(cellEvent.id));
+          e.stopPropagation();
+        }}
+        onClick={e => {
+          e.stopPropagation();
+          if (e.shiftKey || e.ctrlKey || e.metaKey) {
+            toggleSelected(cellEvent.id);
+          } else if (!cellOccurrence.cancelled) {
+            openEventLinks(cellEvent, getOccurrenceUrls(cellOccurrence));
+          }
+        }}
+        onContextMenu={e => handleEventContextMenu(e, cellOccurrence)}
+      >
+        <div className="truncate text-xs">
+          {conflictingOccurrences.has(cellOccurrence) && (
+            <i className="ri-alert-line mr-0.5" title="다른 일정과 시간이 겹칩니다"></i>
+          )}
+          {cellEvent.date && (
+            <i className="ri-calendar-event-line mr-0.5" title={`${cellEvent.date} 하루만`}></i>
+          )}
+          {inPeriod && findPeriodIndex(settings.periods, segment.start, segment.end) === -1 && (
+            <i className="ri-time-line mr-0.5" title={`교시 밖 일정 (${cellOccurrence.startTime} - ${cellOccurrence.endTime})`}></i>
+          )}
+          {snapshotStatus === 'orphaned' && <i className="ri-link-unlink mr-0.5" title="템플릿이 삭제된 일정"></i>}
+          {snapshotStatus === 'outdated' && (
+            <i className="ri-refresh-line mr-0.5" title="템플릿이 바뀐 뒤 반영하지 않은 일정"></i>
+          )}
+          {cellEvent.template.name}
+        </div>
+        <div className="text-xs opacity-75">
+          {cellOccurrence.startTime} - {getDisplayEndTime(cellOccurrence)}
+          {isOvernight(cellOccurrence.startTime, getDisplayEndTime(cellOccurrence)) && ' (다음날)'}
+        </div>
+        {(cellEvent.location || cellEvent.notes) && (
+          <div className="text-[10px] opacity-75 truncate" title={cellEvent.notes}>
+            {cellEvent.location && (
+              <>
+                <i className="ri-map-pin-line mr-0.5"></i>
+                {cellEvent.location}
+              </>
+            )}
+            {cellEvent.notes && <i className={`ri-sticky-note-line ${cellEvent.location ? 'ml-1' : ''}`}></i>}
+          </div>
+        )}
+        {cellEvent.recurrence && (
+          <div className="text-[10px] opacity-75 truncate">{describeRecurrence(cellEvent.recurrence)}</div>
+        )}
+        {cellOccurrence.exception && (
+          <div className="text-[10px] font-semibold truncate">
+            <i className="ri-error-warning-line mr-0.5"></i>
+            {describeException(cellOccurrence)}
+          </div>
+        )}
+        <button
+          onClick={e => {
+            e.stopPropagation();
+            onDeleteEvent(cellEvent.id);
+          }}
+          className="absolute -top-0.5 -right-0.5 w-4 h-4 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
+        >
+          <i className="ri-close-line w-2.5 h-2.5 flex items-center justify-center"></i>
+        </button>
+        {!inPeriod && !cellOccurrence.cancelled && !segment.continues && (
+          // 아래쪽 가장자리를 끌어 종료 시간을 조절합니다.
+          <div
+            className="absolute left-0 right-0 bottom-0 h-1.5 cursor-ns-resize rounded-b bg-white/0 hover:bg-white/40"
+            onMouseDown={e =>
+              startResize(e, cellOccurrence, e.currentTarget.parentElement?.parentElement?.getBoundingClientRect().height ?? 0)
+            }
+            onClick={e => e.stopPropagation()}
+          />
+        )}
+      </div>
+    );
   };
 
   return (
-    <div className="flex-1 bg-white h-full overflow-hidden" onClick={handleClickOutside}>
-      <div className="overflow-y-auto h-full" style={{ maxHeight: 'calc(((100vh - 120px) / 12) * 8)' }}>
-        <div className="grid grid-cols-8 border-b border-gray-200 sticky top-0 bg-white z-10">
+    <div className="flex-1 bg-white h-full overflow-hidden flex flex-col" onClick={handleClickOutside}>
+      {/* 주간 네비게이션과 배치 방식 */}
+      <div className="flex items-center justify-between px-3 py-1.5 border-b border-gray-200">
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={goToPrevWeek}
+            className="w-6 h-6 flex items-center justify-center text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <span className="text-xs font-medium text-gray-900">
+            {weekStart.getMonth() + 1}월 {weekStart.getDate()}일 - {weekEnd.getMonth() + 1}월 {weekEnd.getDate()}일
+          </span>
+          <button
+            onClick={goToNextWeek}
+            className="w-6 h-6 flex items-center justify-center text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+          <button
+            onClick={goToThisWeek}
+            className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-md hover:bg-blue-200 transition-colors cursor-pointer whitespace-nowrap"
+          >
+            이번 주
+          </button>
+          {canCopyWeek && (
+            <button
+              onClick={() => setClipboard({ kind: 'week', weekStart })}
+              className="w-6 h-6 flex items-center justify-center text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
+              title="이번 주의 날짜 지정 일정 복사"
+            >
+              <i className="ri-file-copy-line w-4 h-4 flex items-center justify-center"></i>
+            </button>
+          )}
+          {canPasteWeek && (
+            <button
+              onClick={handlePasteWeek}
+              className="w-6 h-6 flex items-center justify-center text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded-md transition-colors cursor-pointer"
+              title="복사한 주를 이번 주에 붙여넣기"
+            >
+              <i className="ri-clipboard-line w-4 h-4 flex items-center justify-center"></i>
+            </button>
+          )}
+        </div>
+        <div className="flex items-center space-x-2">
+        {!isPeriodGrid && (
+        <select
+          value={snapStep}
+          onChange={e => setSnapStep(parseInt(e.target.value, 10))}
+          className="px-2 py-1 pr-6 border border-gray-200 rounded-md text-xs text-gray-700"
+          title="배치 시간 단위"
+        >
+          {SNAP_OPTIONS.map(step => (
+            <option key={step} value={step}>{step === 60 ? '1시간 단위' : `${step}분 단위`}</option>
+          ))}
+        </select>
+        )}
+        <div className="flex items-center bg-gray-100 rounded-lg p-0.5" title="새 일정 배치 방식">
+          <button
+            onClick={() => setPlacementMode('weekly')}
+            className={`px-2 py-1 rounded-md text-xs font-medium transition-colors whitespace-nowrap cursor-pointer ${
+              placementMode === 'weekly' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            매주 반복
+          </button>
+          <button
+            onClick={() => setPlacementMode('once')}
+            className={`px-2 py-1 rounded-md text-xs font-medium transition-colors whitespace-nowrap cursor-pointer ${
+              placementMode === 'once' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600 hover:text-gray-900'
+            }`}
+          >
+            이 날짜만
+          </button>
+        </div>
+        </div>
+      </div>
+      <TagLegend tags={collectTags(events.map(event => event.template))} hiddenTags={hiddenTags} onToggleTag={onToggleTag} />
+      {selectedIds.size > 0 && (
+        <SelectionToolbar
+          count={getSelectedEvents().length}
+          templates={templates}
+          onRecolor={recolorSelection}
+          onReassign={reassignSelection}
+          onDelete={deleteSelection}
+          onClear={() => setSelectedIds(new Set())}
+        />
+      )}
+      <div
+        ref={gridRef}
+        className="overflow-y-auto flex-1 focus:outline-none"
+        style={{ maxHeight: 'calc(((100vh - 120px) / 12) * 8)' }}
+        tabIndex={0}
+        aria-label="주간 시간표. 방향키로 칸을 이동합니다."
+        onMouseDown={startSelection}
+        onKeyDown={handleGridKeyDown}
+        onFocus={() => setIsGridFocused(true)}
+        onBlur={e => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsGridFocused(false);
+        }}
+      >
+        <div className="grid border-b border-gray-200 sticky top-0 bg-white z-10" style={gridColumns}>
           <div className="p-2 border-r border-gray-200"></div>
-          {DAYS.map(day => (
-            <div key={day} className="p-2 text-center font-medium text-gray-900 border-r border-gray-200 text-sm">
-              {day}
+          {visibleDays.map(dayIndex => {
+            const isTodayColumn = toDateKey(weekDates[dayIndex]) === todayKey;
+            return (
+              <div
+                key={dayIndex}
+                className={`p-2 text-center font-medium border-r border-gray-200 text-sm ${
+                  isTodayColumn ? 'text-blue-600' : 'text-gray-900'
+                }`}
+                onContextMenu={e => handleDayHeaderContextMenu(e, dayIndex)}
+                title="우클릭하여 요일 복사/붙여넣기"
+              >
+                {DAY_LABELS[dayIndex]}
+                <span className="ml-1 text-[10px] font-normal text-gray-500">
+                  {weekDates[dayIndex].getMonth() + 1}/{weekDates[dayIndex].getDate()}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+        {isPeriodGrid ? (
+        <div className="grid" style={gridColumns}>
+          {getPeriodRows(settings).map(row => {
+            if (row.kind === 'blocked') {
+              const { range } = row;
+              return (
+                <div key={range.id} className="contents">
+                  <div className="px-2 py-1 border-r border-b border-gray-200 text-[10px] text-gray-500 flex flex-col items-center justify-center bg-gray-50">
+                    <span>{range.name}</span>
+                    <span className="text-gray-400">{range.startTime}-{range.endTime}</span>
+                  </div>
+                  {visibleDays.map(dayIndex => (
+                    <div
+                      key={`${range.id}-${dayIndex}`}
+                      className="border-r border-b border-gray-200 cursor-not-allowed"
+                      style={BLOCKED_STYLE}
+                      title={`${range.name} ${range.startTime}-${range.endTime}`}
+                    />
+                  ))}
+                </div>
+              );
+            }
+            const { period, index: periodIndex } = row;
+            return (
+            <div key={period.id} className="contents">
+              <div
+                className="p-2 border-r border-b border-gray-200 text-xs text-gray-600 font-medium flex flex-col items-center justify-center"
+                style={{ minHeight: 'calc((100vh - 120px) / 12)' }}
+              >
+                <span>{getPeriodLabel(period, periodIndex)}</span>
+                <span className="text-[10px] font-normal text-gray-400">
+                  {period.startTime}-{period.endTime}
+                </span>
+              </div>
+              {visibleDays.map(dayIndex => (
+                <div
+                  key={`${period.id}-${dayIndex}`}
+                  data-cell={`${dayIndex}-${periodIndex}`}
+                  className={`border-r border-b border-gray-200 p-1 cursor-pointer transition-colors ${
+                    selectedTemplate ? 'hover:bg-blue-50' : 'hover:bg-gray-50'
+                  } ${isCursorCell(dayIndex, periodIndex) ? 'ring-2 ring-inset ring-blue-400' : ''}`}
+                  style={{ minHeight: 'calc((100vh - 120px) / 12)' }}
+                  onClick={() => {
+                    setCursor({ day: dayIndex, row: periodIndex, item: 0 });
+                    handlePeriodClick(dayIndex, period);
+                  }}
+                  onContextMenu={e => handleSlotContextMenu(e, dayIndex, period.startTime, period.endTime)}
+                  onDrop={e => handlePeriodDrop(e, dayIndex, period)}
+                  onDragOver={e => e.preventDefault()}
+                >
+                  {getSegmentsInPeriod(dayIndex, periodIndex).map(segment => renderSegment(segment, true))}
+                </div>
+              ))}
             </div>
-          ))}
+            );
+          })}
         </div>
-        <div className="grid grid-cols-8">
-          {HOURS.map(hour => (
+        ) : (
+        <div className="grid" style={gridColumns}>
+          {hours.map((hour, hourIndex) => (
             <div key={hour} className="contents">
               <div
                 className="p-2 border-r border-b border-gray-200 text-xs text-gray-600 font-medium flex items-center justify-center"
@@ -187,85 +1202,151 @@ export default function WeekView({
               >
                 {hour}:00
               </div>
-              {DAYS.map((_, dayIndex) => {
-                const cellEvent = getEventForCell(dayIndex, hour);
-                const isStart = cellEvent && isEventStart(cellEvent, hour);
-                const eventHeight = cellEvent ? getEventHeight(cellEvent) : 1;
+              {visibleDays.map(dayIndex => {
+                const cellSegments = getSegmentsStartingInCell(dayIndex, hour);
                 return (
                   <div
                     key={`${hour}-${dayIndex}`}
+                    data-cell={`${dayIndex}-${hourIndex}`}
                     className={`border-r border-b border-gray-200 p-1 cursor-pointer transition-colors relative ${
                       selectedTemplate ? 'hover:bg-blue-50' : 'hover:bg-gray-50'
-                    }`}
+                    } ${isCursorCell(dayIndex, hourIndex) ? 'ring-2 ring-inset ring-blue-400' : ''}`}
                     style={{ minHeight: 'calc((100vh - 120px) / 12)' }}
-                    onClick={() => handleCellClick(dayIndex, hour)}
+                    onClick={e => {
+                      setCursor({ day: dayIndex, row: hourIndex, item: 0 });
+                      handleCellClick(e, dayIndex, hour);
+                    }}
+                    onContextMenu={e =>
+                      handleSlotContextMenu(e, dayIndex, fromMinutes(snapMinutes(getPointerMinutes(e, hour), snapStep)))
+                    }
                     onDrop={e => handleDrop(e, dayIndex, hour)}
                     onDragOver={e => e.preventDefault()}
                   >
-                    {cellEvent && isStart && (
+                    {getBlockedBandsInCell(hour).map(({ interval, top, height, showLabel }) => (
+                      // 띠 위로는 끌어 놓을 수 없도록 dragover를 칸까지 전달하지 않습니다.
                       <div
-                        className="absolute left-0.5 right-0.5 p-1 rounded text-white text-xs font-medium group cursor-move z-10"
-                        style={{
-                          backgroundColor: cellEvent.template.color,
-                          height: `calc(${eventHeight} * (100vh - 120px) / 12 - 2px)`,
-                          top: '2px'
-                        }}
-                        draggable
-                        onDragStart={e => {
-                          e.dataTransfer.setData('event', JSON.stringify(cellEvent.id));
-                          e.stopPropagation();
-                        }}
-                        onClick={e => {
-                          e.stopPropagation();
-                          handleEventClick(cellEvent);
-                        }}
-                        onContextMenu={e => handleEventContextMenu(e, cellEvent)}
+                        key={`${interval.range.id}-${interval.start}`}
+                        className="absolute left-0 right-0 px-1 text-[10px] text-gray-500 overflow-hidden cursor-not-allowed"
+                        style={{ ...BLOCKED_STYLE, top: `calc(${top} * ${ROW_HEIGHT})`, height: `calc(${height} * ${ROW_HEIGHT})` }}
+                        title={`${interval.range.name} ${interval.range.startTime}-${interval.range.endTime}`}
+                        onDragOver={e => e.stopPropagation()}
                       >
-                        <div className="truncate text-xs">{cellEvent.template.name}</div>
-                        <div className="text-xs opacity-75">
-                          {cellEvent.startTime} - {cellEvent.endTime}
-                        </div>
-                        <button
-                          onClick={e => {
-                            e.stopPropagation();
-                            onDeleteEvent(cellEvent.id);
-                          }}
-                          className="absolute -top-0.5 -right-0.5 w-4 h-4 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
-                        >
-                          <i className="ri-close-line w-2.5 h-2.5 flex items-center justify-center"></i>
-                        </button>
+                        {showLabel && interval.range.name}
                       </div>
-                    )}
+                    ))}
+                    {cellSegments.map(segment => renderSegment(segment))}
                   </div>
                 );
               })}
             </div>
           ))}
         </div>
+        )}
       </div>
 
-      {contextMenu && (
+      {drawerOccurrence && (
+        <EventDrawer
+          occurrence={drawerOccurrence}
+          templates={templates}
+          days={visibleDays}
+          onSave={handleDrawerSave}
+          onEditTemplate={() => onEditTemplate(drawerOccurrence.event.template)}
+          onEditDetails={handleEditDetails}
+          onDuplicate={handleDuplicateEvent}
+          onCopy={handleCopyEvent}
+          onEditRecurrence={handleEditRecurrence}
+          onEditOccurrence={handleEditOccurrence}
+          onCancelOccurrence={handleCancelOccurrence}
+          onRestoreOccurrence={handleRestoreOccurrence}
+          onSaveAsTemplate={handleSaveAsTemplate}
+          onDelete={handleDeleteEventFromDrawer}
+          onClose={() => setDrawerTarget(null)}
+        />
+      )}
+
+      {selectionRect && (
+        <div
+          className="fixed border border-blue-500 bg-blue-200/20 pointer-events-none z-40"
+          style={selectionRect}
+        />
+      )}
+
+      {slotMenu && (
         <div
           className="fixed bg-white border border-gray-200 rounded-lg shadow-lg py-1 z-50"
-          style={{ left: contextMenu.x, top: contextMenu.y }}
+          style={{ left: slotMenu.x, top: slotMenu.y }}
           onClick={e => e.stopPropagation()}
         >
-          <button
-            onClick={handleEditEvent}
-            className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
-          >
-            <i className="ri-edit-line w-3 h-3 flex items-center justify-center mr-1.5"></i>
-            수정
-          </button>
-          <button
-            onClick={handleDeleteEventFromContext}
-            className="w-full px-3 py-1.5 text-left text-red-600 hover:bg-red-50 flex items-center whitespace-nowrap text-xs"
-          >
-            <i className="ri-delete-bin-line w-3 h-3 flex items-center justify-center mr-1.5"></i>
-            삭제
-          </button>
+          {slotMenu.startTime && clipboard?.kind === 'event' ? (
+            <button
+              onClick={handlePasteEvent}
+              className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
+            >
+              <i className="ri-clipboard-line w-3 h-3 flex items-center justify-center mr-1.5"></i>
+              {clipboard.event.template.name} 붙여넣기 ({slotMenu.startTime})
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={handleCopyDay}
+                className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
+              >
+                <i className="ri-file-copy-line w-3 h-3 flex items-center justify-center mr-1.5"></i>
+                {DAY_LABELS[slotMenu.day]}요일 일정 복사
+              </button>
+              {clipboard?.kind === 'day' && (
+                <button
+                  onClick={handlePasteDay}
+                  className="w-full px-3 py-1.5 text-left text-xs text-gray-700 hover:bg-gray-100 flex items-center whitespace-nowrap"
+                >
+                  <i className="ri-clipboard-line w-3 h-3 flex items-center justify-center mr-1.5"></i>
+                  {DAY_LABELS[getDayIndex(clipboard.date)]}요일 일정 붙여넣기
+                </button>
+              )}
+            </>
+          )}
         </div>
       )}
+
+      <Modal isOpen={duplicateEvent !== null} onClose={() => setDuplicateEvent(null)} title="다른 요일에 복제">
+        <DuplicateEventForm
+          event={duplicateEvent}
+          days={visibleDays}
+          onSubmit={handleDuplicateSubmit}
+          onCancel={() => setDuplicateEvent(null)}
+        />
+      </Modal>
+
+      <Modal isOpen={detailsEvent !== null} onClose={() => setDetailsEvent(null)} title="장소·메모·첨부">
+        <EventDetailsForm event={detailsEvent} onSubmit={handleDetailsSubmit} onCancel={() => setDetailsEvent(null)} />
+      </Modal>
+
+      <Modal isOpen={recurrenceEvent !== null} onClose={() => setRecurrenceEvent(null)} title="반복 설정">
+        <RecurrenceForm
+          recurrence={recurrenceEvent?.recurrence}
+          onSubmit={handleRecurrenceSubmit}
+          onCancel={() => setRecurrenceEvent(null)}
+        />
+      </Modal>
+
+      <Modal isOpen={exceptionOccurrence !== null} onClose={() => setExceptionOccurrence(null)} title="이번 회차만 변경">
+        <OccurrenceExceptionForm
+          occurrence={exceptionOccurrence}
+          onSubmit={handleExceptionSubmit}
+          onCancel={() => setExceptionOccurrence(null)}
+        />
+      </Modal>
+
+      <Modal isOpen={pendingConflict !== null} onClose={() => setPendingConflict(null)} title="일정 충돌">
+        {pendingConflict && (
+          <ConflictDialog
+            conflicts={pendingConflict.conflicts}
+            onPlaceAnyway={() => resolveConflict('apply')}
+            onSwap={pendingConflict.swap ? () => resolveConflict('swap') : undefined}
+            onCancel={() => setPendingConflict(null)}
+          />
+        )}
+      </Modal>
     </div>
   );
 }
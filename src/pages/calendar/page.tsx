@@ -1,14 +1,37 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { useCalendar } from '../../hooks/useCalendar';
 import { Template } from '../../types/calendar';
+import type { CalendarEvent } from '../../types/calendar';
 import CalendarHeader from './components/CalendarHeader';
 import TemplateStorage from './components/TemplateStorage';
 import WeekView from './components/WeekView';
 import MonthView from './components/MonthView';
 import TemplateForm from './components/TemplateForm';
 import CalendarWidget from './components/CalendarWidget';
+import CalendarSettingsForm from './components/CalendarSettingsForm';
+import UndoToast from './components/UndoToast';
+import ShortcutHelp from './components/ShortcutHelp';
+import TemplateLibrary from './components/TemplateLibrary';
+import TemplateSyncForm from './components/TemplateSyncForm';
+import MaintenancePanel from './components/MaintenancePanel';
+import SearchPanel from './components/SearchPanel';
 import Modal from '../../components/base/Modal';
 import { useUpcomingNotice } from '../../hooks/useUpcomingNotice';
+import { useTemplateLibrary } from '../../hooks/useTemplateLibrary';
+import { expandOccurrences, getOccurrenceStart, getOccurrencesForDate } from '../../utils/occurrences';
+import { addDays, parseDateKey } from '../../utils/time';
+import { getMatchingEventIds, normalizeQuery } from '../../utils/search';
+import { collectTags, formatTags, getActiveFilterTag } from '../../utils/tags';
+import { getVisibleTemplateOrder } from '../../utils/templateGroups';
+import {
+  fromLibraryTemplate,
+  getLinkedCalendars,
+  isLinkedToLibrary,
+  templateFromEvent,
+  toLibraryTemplate
+} from '../../utils/templateLibrary';
+import type { SaveTemplateTarget } from '../../utils/templateLibrary';
+import { findOutdatedEvents, getSnapshotStatus, syncEventTemplate } from '../../utils/templateSync';
 
 /**
  * 메인 캘린더 페이지입니다. 헤더, 주간/월간 뷰, 템플릿 보관함,
@@ -22,6 +45,7 @@ export default function CalendarPage() {
     selectedCalendar,
     selectedCalendarId,
     templates,
+    templateGroups,
     events,
     viewMode,
     setViewMode,
@@ -34,19 +58,90 @@ export default function CalendarPage() {
     addTemplate,
     updateTemplate,
     deleteTemplate,
+    reorderTemplate,
+    toggleTemplatePinned,
+    addTemplateGroup,
+    renameTemplateGroup,
+    deleteTemplateGroup,
+    linkTemplate,
+    updateLinkedTemplates,
     addEvent,
+    addEvents,
     deleteEvent,
     updateEvent,
+    updateEvents,
+    deleteEvents,
+    settings,
+    updateSettings,
     selectTemplate,
-    clearSelection
+    clearSelection,
+    undo,
+    redo,
+    undoNotice,
+    dismissUndoNotice
   } = useCalendar();
 
+  const { library, addLibraryTemplate, updateLibraryTemplate, deleteLibraryTemplate } = useTemplateLibrary();
+
   // 1시간 이내로 다가온 일정 정보 (이름 + 남은 분)
   const upcomingNotice = useUpcomingNotice(events);
 
   // Template modal state
   const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<Template | null>(null);
+  // Template library state. editingLibraryTemplate가 null이면 새 라이브러리 템플릿을 만듭니다.
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isLibraryFormOpen, setIsLibraryFormOpen] = useState(false);
+  const [editingLibraryTemplate, setEditingLibraryTemplate] = useState<Template | null>(null);
+  // 배치된 일정에 변경 내용을 반영할 템플릿
+  const [syncTemplateId, setSyncTemplateId] = useState<string | null>(null);
+  const syncTemplate = templates.find(t => t.id === syncTemplateId) ?? null;
+  const outdatedEvents = syncTemplate ? findOutdatedEvents(events, syncTemplate) : [];
+  const outdatedCounts = useMemo(
+    () => Object.fromEntries(templates.map(t => [t.id, findOutdatedEvents(events, t).length])),
+    [templates, events]
+  );
+  // 템플릿이 삭제되었거나 바뀐 일정을 점검하는 패널
+  const [isMaintenanceOpen, setIsMaintenanceOpen] = useState(false);
+  const staleEventCount = useMemo(
+    () => events.filter(event => getSnapshotStatus(event, templates)).length,
+    [templates, events]
+  );
+  // Calendar settings modal state
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  // Keyboard shortcut help state
+  const [isShortcutsOpen, setIsShortcutsOpen] = useState(false);
+  // Search state. 검색어가 있는 동안 현재 시간표에서 일치하는 일정을 강조(필터 모드면 나머지를 흐리게)합니다.
+  const [isSearchOpen, setIsSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isSearchFilter, setIsSearchFilter] = useState(false);
+  // 검색 결과에서 고른 날짜 지정 일정의 날짜. 보기가 그 주/달로 이동합니다.
+  const [searchFocusDate, setSearchFocusDate] = useState<Date | undefined>(undefined);
+  // 태그 범례에서 숨긴 태그
+  const [hiddenTags, setHiddenTags] = useState<Set<string>>(() => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem('calendar-hidden-tags') : null;
+    return new Set<string>(saved ? JSON.parse(saved) : []);
+  });
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('calendar-hidden-tags', JSON.stringify([...hiddenTags]));
+    }
+  }, [hiddenTags]);
+  const handleToggleTag = (tag: string) => {
+    setHiddenTags(prev => {
+      const next = new Set(prev);
+      if (next.has(tag)) {
+        next.delete(tag);
+      } else {
+        next.add(tag);
+      }
+      return next;
+    });
+  };
+  const matchedEventIds = useMemo(
+    () => (normalizeQuery(searchQuery) ? getMatchingEventIds(events, searchQuery) : null),
+    [events, searchQuery]
+  );
   // Widget state
   const [isWidgetOpen, setIsWidgetOpen] = useState(() => {
     const saved = typeof window !== 'undefined' ? localStorage.getItem('calendar-widget-open') : null;
@@ -58,6 +153,66 @@ export default function CalendarPage() {
     }
   }, [isWidgetOpen]);
 
+  // 템플릿 저장 공간에서 걸러 볼 태그와 접어 둔 영역. 숫자 키가 저장 공간에 보이는 템플릿만 따르도록 여기서 관리합니다.
+  const [templateFilterTag, setTemplateFilterTag] = useState<string | null>(null);
+  const [collapsedTemplateSections, setCollapsedTemplateSections] = useState<string[]>(() => {
+    const saved = typeof window !== 'undefined' ? localStorage.getItem('template-storage-collapsed-sections') : null;
+    return saved ? JSON.parse(saved) : [];
+  });
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem('template-storage-collapsed-sections', JSON.stringify(collapsedTemplateSections));
+    }
+  }, [collapsedTemplateSections]);
+  const toggleTemplateSection = (sectionId: string) => {
+    setCollapsedTemplateSections(prev =>
+      prev.includes(sectionId) ? prev.filter(id => id !== sectionId) : [...prev, sectionId]
+    );
+  };
+  // 템플릿 저장 공간에 보이는 템플릿과 그 순서. 숫자 키가 이 목록을 따릅니다.
+  const visibleTemplates = getVisibleTemplateOrder(
+    templates,
+    templateGroups,
+    getActiveFilterTag(templates, templateFilterTag),
+    collapsedTemplateSections
+  );
+
+  // 전역 단축키. Ctrl+Z로 실행 취소, Ctrl+Shift+Z로 다시 실행 (macOS는 Cmd), 숫자 1–9로 템플릿 선택,
+  // Esc로 템플릿 선택 해제, ?로 단축키 도움말, /로 검색을 엽니다. 입력 중에는 입력란의 기본 동작을 따릅니다.
+  // 주간 보기가 먼저 처리한 키(서랍 닫기, 선택 해제 등)는 여기까지 오지 않습니다.
+  // 처리기는 최신 상태를 읽도록 ref에 두고 창에는 한 번만 등록합니다.
+  const shortcutKeyDownRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  shortcutKeyDownRef.current = (e: KeyboardEvent) => {
+    const target = e.target as HTMLElement | null;
+    if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+    if (e.ctrlKey || e.metaKey) {
+      if (e.key.toLowerCase() !== 'z') return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+      return;
+    }
+    if (e.altKey) return;
+    if (e.key === '?') {
+      setIsShortcutsOpen(prev => !prev);
+    } else if (e.key === '/') {
+      e.preventDefault();
+      setIsSearchOpen(true);
+    } else if (/^[1-9]$/.test(e.key) && visibleTemplates[Number(e.key) - 1]) {
+      selectTemplate(visibleTemplates[Number(e.key) - 1]);
+    } else if (e.key === 'Escape' && selectedTemplate) {
+      clearSelection();
+    }
+  };
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutKeyDownRef.current(e);
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // Template modal handlers
   const handleCreateTemplate = () => {
     setEditingTemplate(null);
@@ -68,11 +223,24 @@ export default function CalendarPage() {
     setIsTemplateModalOpen(true);
   };
   const handleTemplateSubmit = (templateData: any) => {
-    if (editingTemplate) {
+    const libraryId = editingTemplate?.libraryId;
+    if (
+      editingTemplate &&
+      libraryId &&
+      isLinkedToLibrary(editingTemplate, library) &&
+      window.confirm('라이브러리와 연결된 템플릿입니다. 라이브러리와 연결된 모든 시간표에 함께 반영할까요?')
+    ) {
+      updateLibraryTemplate(libraryId, toLibraryTemplate({ ...templateData, id: libraryId }));
+      updateLinkedTemplates(libraryId, templateData);
+    } else if (editingTemplate) {
       updateTemplate(editingTemplate.id, templateData);
     } else {
       addTemplate(templateData);
     }
+    // 이미 배치된 일정과 달라졌다면 반영할지 바로 물어봅니다.
+    if (editingTemplate && findOutdatedEvents(events, { ...editingTemplate, ...templateData }).length > 0) {
+      setSyncTemplateId(editingTemplate.id);
+    }
     setIsTemplateModalOpen(false);
     setEditingTemplate(null);
   };
@@ -81,6 +249,83 @@ export default function CalendarPage() {
     setEditingTemplate(null);
   };
 
+  const handleSyncSubmit = (eventIds: string[]) => {
+    if (!syncTemplate) return;
+    updateEvents(
+      outdatedEvents
+        .filter(({ event }) => eventIds.includes(event.id))
+        .map(({ event }) => ({ id: event.id, updates: syncEventTemplate(event, syncTemplate) }))
+    );
+    setSyncTemplateId(null);
+  };
+
+  // Maintenance handlers
+  // 사본의 ID도 새 템플릿으로 바꿔야 일정에서 연 템플릿 수정이 새 템플릿에 반영됩니다.
+  const handleRelinkEvents = (eventIds: string[], template: Template) => {
+    updateEvents(
+      events
+        .filter(event => eventIds.includes(event.id))
+        .map(event => ({ id: event.id, updates: { templateId: template.id, template: { ...event.template, id: template.id } } }))
+    );
+  };
+  const handleRecreateTemplate = (orphans: CalendarEvent[]) => {
+    const templateId = addTemplate(toLibraryTemplate(orphans[0].template));
+    if (!templateId) return;
+    updateEvents(
+      orphans.map(event => ({ id: event.id, updates: { templateId, template: { ...event.template, id: templateId } } }))
+    );
+  };
+
+  // Template library handlers
+  const handleSaveToLibrary = (template: Template) => {
+    const entry = addLibraryTemplate(toLibraryTemplate(template));
+    linkTemplate(template.id, entry.id);
+  };
+  /** 일정의 현재 내용(일정에만 붙인 링크와 첨부 파일 포함)을 새 템플릿으로 저장합니다. */
+  const handleSaveEventAsTemplate = (event: CalendarEvent, target: SaveTemplateTarget) => {
+    const name = window.prompt(
+      target === 'library' ? '라이브러리에 저장할 템플릿 이름' : '새 템플릿 이름',
+      event.template.name
+    );
+    if (!name?.trim()) return;
+    const templateData = templateFromEvent(event, name.trim());
+    if (target === 'library') {
+      addLibraryTemplate(templateData);
+    } else {
+      addTemplate(templateData);
+    }
+  };
+  const handleAddFromLibrary = (template: Template, link: boolean) => {
+    addTemplate(fromLibraryTemplate(template, link));
+  };
+  const handleLibraryFormSubmit = (templateData: Omit<Template, 'id'>) => {
+    if (editingLibraryTemplate) {
+      const linked = getLinkedCalendars(calendars, editingLibraryTemplate.id);
+      updateLibraryTemplate(editingLibraryTemplate.id, templateData);
+      if (
+        linked.length > 0 &&
+        window.confirm(
+          `연결된 시간표(${linked.map(calendar => calendar.name).join(', ')})의 템플릿도 함께 수정할까요?`
+        )
+      ) {
+        updateLinkedTemplates(editingLibraryTemplate.id, templateData);
+      }
+    } else {
+      addLibraryTemplate(templateData);
+    }
+    setIsLibraryFormOpen(false);
+    setEditingLibraryTemplate(null);
+  };
+  const handleLibraryFormClose = () => {
+    setIsLibraryFormOpen(false);
+    setEditingLibraryTemplate(null);
+  };
+  const handleDeleteLibraryTemplate = (template: Template) => {
+    if (!window.confirm(`라이브러리에서 "${template.name}" 템플릿을 삭제할까요? 시간표의 템플릿은 남고 연결만 해제됩니다.`)) return;
+    // 라이브러리는 실행 취소 기록 밖에 있어 시간표의 연결은 그대로 두고, 삭제된 항목으로의 연결은 없는 것으로 봅니다.
+    deleteLibraryTemplate(template.id);
+  };
+
   // Notification state (기존 1시간 전 알림용)
   const [alerts, setAlerts] = useState<{ id: string; message: string }[]>([]);
   const [isAlertsOpen, setIsAlertsOpen] = useState(false);
@@ -90,25 +335,17 @@ export default function CalendarPage() {
   useEffect(() => {
     const interval = setInterval(() => {
       const now = new Date();
-      const nowDay = (now.getDay() + 6) % 7;
-      events.forEach(ev => {
-        if (ev.day === nowDay) {
-          const [startHour, startMinute] = ev.startTime.split(':').map(Number);
-          const eventStart = new Date(
-            now.getFullYear(),
-            now.getMonth(),
-            now.getDate(),
-            startHour,
-            startMinute
-          );
-          const diffMinutes = (eventStart.getTime() - now.getTime()) / 60000;
-          if (diffMinutes > 59 && diffMinutes <= 60) {
-            const alertId = `${ev.id}-${eventStart.toISOString()}`;
-            if (!alertedEventsRef.current.has(alertId)) {
-              alertedEventsRef.current.add(alertId);
-              const msg = `${ev.template.name} 수업 1시간 전`;
-              setAlerts(prev => [...prev, { id: alertId, message: msg }]);
-            }
+      // 밤 11시 이후에는 다음날 0시대 일정도 1시간 전 알림 대상이므로 내일까지 펼칩니다.
+      expandOccurrences(events, now, addDays(now, 1)).forEach(occurrence => {
+        const ev = occurrence.event;
+        const eventStart = getOccurrenceStart(occurrence);
+        const diffMinutes = (eventStart.getTime() - now.getTime()) / 60000;
+        if (diffMinutes > 59 && diffMinutes <= 60) {
+          const alertId = `${ev.id}-${eventStart.toISOString()}`;
+          if (!alertedEventsRef.current.has(alertId)) {
+            alertedEventsRef.current.add(alertId);
+            const msg = `${ev.template.name} 수업 1시간 전`;
+            setAlerts(prev => [...prev, { id: alertId, message: msg }]);
           }
         }
       });
@@ -121,11 +358,13 @@ export default function CalendarPage() {
   };
 
   const handleShare = async () => {
-    const today = new Date();
-    const day = (today.getDay() + 6) % 7;
-    const todayEvents = events.filter(ev => ev.day === day);
+    const todayEvents = getOccurrencesForDate(events, new Date());
     const shareText = todayEvents.length > 0
-      ? todayEvents.map(ev => `${ev.template.name} ${ev.startTime}-${ev.endTime}`).join('\n')
+      ? todayEvents
+          .map(({ event: ev, startTime, endTime }) =>
+            [`${ev.template.name} ${startTime}-${endTime}`, formatTags(ev.template.tags)].filter(Boolean).join(' ')
+          )
+          .join('\n')
       : '오늘 일정이 없습니다.';
     if (navigator.share) {
       try {
@@ -154,6 +393,12 @@ export default function CalendarPage() {
     setIsWidgetOpen(false);
   };
 
+  // Jump to a search result's calendar, and to its date for one-off events
+  const handleSelectSearchResult = (calendarId: string, event?: CalendarEvent) => {
+    selectCalendar(calendarId);
+    if (event?.date) setSearchFocusDate(parseDateKey(event.date));
+  };
+
   // Create a new calendar with the given name
   const handleAddCalendar = (name: string) => {
     addCalendar(name);
@@ -194,25 +439,48 @@ export default function CalendarPage() {
         onDeleteCalendar={handleDeleteCalendar}
         onReorderCalendars={handleReorderCalendars}
         onCreateCalendar={handleAddCalendar}
+        onOpenSettings={() => setIsSettingsOpen(true)}
+        onOpenShortcuts={() => setIsShortcutsOpen(true)}
+        onOpenSearch={() => setIsSearchOpen(prev => !prev)}
+        isSearchActive={matchedEventIds !== null}
       />
       <div className="flex" style={{ height: 'calc(100vh - 50px - 60px)' }}>
         <div className="flex-1 flex flex-col">
           {viewMode === 'week' ? (
             <WeekView
               events={events}
+              templates={templates}
               selectedTemplate={selectedTemplate}
               onAddEvent={addEvent}
+              onAddEvents={addEvents}
               onDeleteEvent={deleteEvent}
               onUpdateEvent={updateEvent}
+              onUpdateEvents={updateEvents}
+              onDeleteEvents={deleteEvents}
               onEditTemplate={handleEditTemplate}
+              onSaveAsTemplate={handleSaveEventAsTemplate}
+              settings={settings}
+              matchedEventIds={matchedEventIds}
+              dimUnmatched={isSearchFilter}
+              focusDate={searchFocusDate}
+              hiddenTags={hiddenTags}
+              onToggleTag={handleToggleTag}
             />
           ) : (
             <MonthView
               events={events}
+              templates={templates}
               selectedTemplate={selectedTemplate}
               onAddEvent={addEvent}
               onDeleteEvent={deleteEvent}
               onEditTemplate={handleEditTemplate}
+              onSaveAsTemplate={handleSaveEventAsTemplate}
+              settings={settings}
+              matchedEventIds={matchedEventIds}
+              dimUnmatched={isSearchFilter}
+              focusDate={searchFocusDate}
+              hiddenTags={hiddenTags}
+              onToggleTag={handleToggleTag}
             />
           )}
         </div>
@@ -223,6 +491,24 @@ export default function CalendarPage() {
         onSelectTemplate={selectTemplate}
         onDeleteTemplate={deleteTemplate}
         onEditTemplate={handleEditTemplate}
+        templateGroups={templateGroups}
+        onReorderTemplate={reorderTemplate}
+        onTogglePinned={toggleTemplatePinned}
+        onAddGroup={addTemplateGroup}
+        onRenameGroup={renameTemplateGroup}
+        onDeleteGroup={deleteTemplateGroup}
+        activeTag={templateFilterTag}
+        onActiveTagChange={setTemplateFilterTag}
+        collapsedSections={collapsedTemplateSections}
+        onToggleSection={toggleTemplateSection}
+        visibleTemplates={visibleTemplates}
+        onOpenLibrary={() => setIsLibraryOpen(true)}
+        library={library}
+        onSaveToLibrary={handleSaveToLibrary}
+        outdatedCounts={outdatedCounts}
+        onSyncTemplate={template => setSyncTemplateId(template.id)}
+        staleEventCount={staleEventCount}
+        onOpenMaintenance={() => setIsMaintenanceOpen(true)}
       />
       <Modal
         isOpen={isTemplateModalOpen}
@@ -233,13 +519,77 @@ export default function CalendarPage() {
           onSubmit={handleTemplateSubmit}
           onCancel={handleModalClose}
           editingTemplate={editingTemplate}
+          knownTags={collectTags(templates)}
+        />
+      </Modal>
+      <Modal isOpen={isLibraryOpen} onClose={() => setIsLibraryOpen(false)} title="템플릿 라이브러리">
+        <TemplateLibrary
+          library={library}
+          calendars={calendars}
+          selectedCalendarId={selectedCalendarId}
+          onAddToCalendar={handleAddFromLibrary}
+          onCreate={() => {
+            setEditingLibraryTemplate(null);
+            setIsLibraryFormOpen(true);
+          }}
+          onEdit={template => {
+            setEditingLibraryTemplate(template);
+            setIsLibraryFormOpen(true);
+          }}
+          onDelete={handleDeleteLibraryTemplate}
+        />
+      </Modal>
+      <Modal
+        isOpen={isLibraryFormOpen}
+        onClose={handleLibraryFormClose}
+        title={editingLibraryTemplate ? '라이브러리 템플릿 수정' : '새 라이브러리 템플릿'}
+      >
+        <TemplateForm
+          onSubmit={handleLibraryFormSubmit}
+          onCancel={handleLibraryFormClose}
+          editingTemplate={editingLibraryTemplate}
+          knownTags={collectTags(library)}
+        />
+      </Modal>
+      <Modal isOpen={isMaintenanceOpen} onClose={() => setIsMaintenanceOpen(false)} title="일정 점검">
+        <MaintenancePanel
+          templates={templates}
+          events={events}
+          onRelink={handleRelinkEvents}
+          onRecreate={handleRecreateTemplate}
+          onDeleteEvents={deleteEvents}
+          onSyncTemplate={template => setSyncTemplateId(template.id)}
+        />
+      </Modal>
+      <Modal isOpen={syncTemplate !== null} onClose={() => setSyncTemplateId(null)} title="일정에 템플릿 반영">
+        <TemplateSyncForm
+          template={syncTemplate}
+          outdated={outdatedEvents}
+          onSubmit={handleSyncSubmit}
+          onCancel={() => setSyncTemplateId(null)}
         />
       </Modal>
+      <Modal isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} title="시간표 설정">
+        <CalendarSettingsForm
+          settings={settings}
+          onSubmit={updated => {
+            updateSettings(updated);
+            setIsSettingsOpen(false);
+          }}
+          onCancel={() => setIsSettingsOpen(false)}
+        />
+      </Modal>
+      <Modal isOpen={isShortcutsOpen} onClose={() => setIsShortcutsOpen(false)} title="단축키">
+        <ShortcutHelp />
+      </Modal>
       <CalendarWidget
         isOpen={isWidgetOpen}
         onClose={handleCloseWidget}
         events={events}
         onCreateTemplate={handleCreateTemplate}
+        onUpdateEvent={updateEvent}
+        onSaveAsTemplate={handleSaveEventAsTemplate}
+        settings={settings}
       />
 
       {selectedTemplate && (
@@ -260,6 +610,23 @@ export default function CalendarPage() {
         </div>
       )}
 
+      {undoNotice && (
+        <UndoToast notice={undoNotice} onUndo={undo} onDismiss={dismissUndoNotice} />
+      )}
+
+      {isSearchOpen && (
+        <SearchPanel
+          query={searchQuery}
+          onQueryChange={setSearchQuery}
+          isFilterMode={isSearchFilter}
+          onFilterModeChange={setIsSearchFilter}
+          calendars={calendars}
+          selectedCalendarId={selectedCalendarId}
+          onSelectResult={handleSelectSearchResult}
+          onClose={() => setIsSearchOpen(false)}
+        />
+      )}
+
       {isAlertsOpen && (
         <div className="fixed top-16 right-4 w-80 bg-white shadow-lg rounded-lg border border-gray-200 max-h-80 overflow-y-auto z-50">
           <div className="p-4 border-b border-gray-100 flex items-center justify-between">
@@ -37,6 +37,61 @@ export interface Template {
   // appFiles field removed: templates no longer support embedded application files.
   /** An array of file attachments; persists base64 data and metadata. */
   attachments?: Attachment[];
+  /** User-defined categories such as 전공, 교양, work or personal. */
+  tags?: string[];
+  /** Folder of the template in the template storage. Ungrouped when absent or unknown. */
+  groupId?: string;
+  /** Kept in the favourites section at the top of the template storage. */
+  pinned?: boolean;
+  /**
+   * ID of the shared library template this template is linked to. Linked
+   * templates can be updated together from the library.
+   */
+  libraryId?: string;
+}
+
+/** A folder of templates in the template storage. */
+export interface TemplateGroup {
+  id: string;
+  name: string;
+}
+
+/**
+ * Recurrence rule for weekly events. Every field is optional; an event
+ * without a rule repeats every week forever on its `day`.
+ */
+export interface Recurrence {
+  /** Repeat every N weeks (1 = weekly, 2 = biweekly). Defaults to 1. */
+  interval?: number;
+  /**
+   * Which week of the interval cycle the event falls on, counted from the
+   * week of `startDate` (0 = A주/홀수주, 1 = B주/짝수주 for biweekly).
+   */
+  weekOffset?: number;
+  /** First date (`YYYY-MM-DD`) the event may occur. Also anchors the cycle. */
+  startDate?: string;
+  /** Last date (`YYYY-MM-DD`) the event may occur, inclusive. */
+  endDate?: string;
+  /** Stop after this many occurrences. */
+  count?: number;
+}
+
+/**
+ * Change to a single occurrence of a recurring event, keyed by the date the
+ * occurrence would normally fall on. Fields left undefined keep the values of
+ * the series.
+ */
+export interface EventException {
+  /** Original occurrence date (`YYYY-MM-DD`) this exception applies to. */
+  date: string;
+  /** Skip this occurrence. */
+  cancelled?: boolean;
+  /** Move this occurrence to another date (`YYYY-MM-DD`). */
+  newDate?: string;
+  startTime?: string;
+  endTime?: string;
+  /** Links used instead of the template URLs for this occurrence only. */
+  urls?: string[];
 }
 
 export interface CalendarEvent {
@@ -48,10 +103,86 @@ export interface CalendarEvent {
   endTime: string;
   /** Day of week index (0 = Monday, 6 = Sunday). */
   day: number;
+  /**
+   * Optional concrete date (`YYYY-MM-DD`) for one-off events. When set the
+   * event only happens on that date and `day` mirrors its weekday; when absent
+   * the event repeats every week on `day`.
+   */
+  date?: string;
+  /** Recurrence rule for weekly events. Ignored when `date` is set. */
+  recurrence?: Recurrence;
+  /** Per-occurrence changes for recurring events. */
+  exceptions?: EventException[];
+  /** Room or place of this event, shown on top of the template. */
+  location?: string;
+  /** Free-form note for this event only. */
+  notes?: string;
+  /** Links opened together with the template URLs. */
+  extraUrls?: string[];
+  /** Files opened together with the template attachments. */
+  attachments?: Attachment[];
+  /** Colour of this event only, drawn instead of the template colour. */
+  color?: string;
+}
+
+/**
+ * A single concrete occurrence of an event on a specific date, produced by
+ * expanding weekly events and their recurrence rules over a date range.
+ */
+export interface EventOccurrence {
+  event: CalendarEvent;
+  /** Date of this occurrence (`YYYY-MM-DD`). */
+  date: string;
+  /** Day of week index of `date` (0 = Monday). */
+  day: number;
+  startTime: string;
+  endTime: string;
+  /** Exception applied to this occurrence, if any. */
+  exception?: EventException;
+  /** True when the occurrence was cancelled through an exception. */
+  cancelled?: boolean;
 }
 
 export type ViewMode = 'week' | 'month';
 
+/** One row of a school-style period table, e.g. 1교시 09:00–09:50. */
+export interface Period {
+  id: string;
+  /** Label shown in the grid. Defaults to "N교시" by position when empty. */
+  name?: string;
+  startTime: string;
+  endTime: string;
+}
+
+/** A daily time range, such as lunch or a break, that events should not be placed in. */
+export interface BlockedRange {
+  id: string;
+  name: string;
+  startTime: string;
+  endTime: string;
+}
+
+/** How the week grids lay out their rows. */
+export type GridMode = 'hours' | 'periods';
+
+/** Display settings of a calendar's grids. */
+export interface CalendarSettings {
+  /** First hour row shown in the time grids (0–23). */
+  startHour: number;
+  /** Last hour row shown in the time grids (0–23, inclusive). */
+  endHour: number;
+  /** Hide the Saturday and Sunday columns. */
+  hideWeekends: boolean;
+  /** Day index the week starts on (0 = Monday … 6 = Sunday). */
+  weekStartsOn: number;
+  /** Rows per clock hour, or one row per period of `periods`. */
+  gridMode: GridMode;
+  /** Period table used when `gridMode` is 'periods', ordered by start time. */
+  periods: Period[];
+  /** Breaks and lunch shaded in every day's grid, ordered by start time. */
+  blockedRanges: BlockedRange[];
+}
+
 /**
  * A calendar consists of its own templates and events. Multiple calendars
  * allow users to maintain separate schedules (e.g. Calendar1, Calendar2, etc.).
@@ -59,6 +190,11 @@ export type ViewMode = 'week' | 'month';
 export interface CalendarData {
   id: string;
   name: string;
+  /** Templates in the order they are shown within their folder. */
   templates: Template[];
+  /** Template folders, in display order. */
+  templateGroups?: TemplateGroup[];
   events: CalendarEvent[];
+  /** Grid display settings. Missing fields fall back to the defaults. */
+  settings?: Partial<CalendarSettings>;
 }
\ No newline at end of file
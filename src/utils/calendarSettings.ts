@@ -0,0 +1,160 @@
+import type { BlockedRange, CalendarSettings, Period } from '../types/calendar';
+import { MINUTES_PER_DAY, addDays, addMinutes, getDayIndex, getDurationMinutes, toMinutes } from './time';
+
+/** A typical school day: seven 50-minute periods from 09:00 with 10-minute breaks and lunch after 4교시. */
+export const DEFAULT_PERIODS: Period[] = [
+  '09:00', '10:00', '11:00', '12:00', '13:50', '14:50', '15:50'
+].map((startTime, i) => ({ id: `period-${i + 1}`, startTime, endTime: addMinutes(startTime, 50) }));
+
+/** Settings used when a calendar has none stored: 07–18, Monday first, weekends shown. */
+export const DEFAULT_SETTINGS: CalendarSettings = {
+  startHour: 7,
+  endHour: 18,
+  hideWeekends: false,
+  weekStartsOn: 0,
+  gridMode: 'hours',
+  periods: DEFAULT_PERIODS,
+  blockedRanges: []
+};
+
+/** Korean weekday labels indexed by day index (0 = Monday). */
+export const DAY_LABELS = ['월', '화', '수', '목', '금', '토', '일'];
+
+/** Fill in missing fields with defaults and keep the hour range valid. */
+export function resolveSettings(settings?: Partial<CalendarSettings>): CalendarSettings {
+  const merged = { ...DEFAULT_SETTINGS, ...settings };
+  const startHour = Math.min(23, Math.max(0, Math.floor(merged.startHour)));
+  const endHour = Math.min(23, Math.max(startHour, Math.floor(merged.endHour)));
+  return {
+    startHour,
+    endHour,
+    hideWeekends: !!merged.hideWeekends,
+    weekStartsOn: ((Math.floor(merged.weekStartsOn) % 7) + 7) % 7,
+    gridMode: merged.gridMode === 'periods' ? 'periods' : 'hours',
+    periods: sortPeriods(Array.isArray(merged.periods) ? merged.periods : DEFAULT_PERIODS),
+    blockedRanges: sortPeriods(Array.isArray(merged.blockedRanges) ? merged.blockedRanges : [])
+  };
+}
+
+/** Periods or blocked ranges ordered by start time. */
+export function sortPeriods<T extends { startTime: string }>(periods: T[]): T[] {
+  return [...periods].sort((a, b) => toMinutes(a.startTime) - toMinutes(b.startTime));
+}
+
+/** Label of a period in the grid: its own name, or "N교시" by position. */
+export function getPeriodLabel(period: Period, index: number): string {
+  return period.name?.trim() || `${index + 1}교시`;
+}
+
+/**
+ * Index of the first period a time range overlaps, or -1 when the range falls
+ * between or outside all periods. `start` and `end` are minutes from midnight.
+ */
+export function findPeriodIndex(periods: Period[], start: number, end: number): number {
+  return periods.findIndex(period => {
+    const periodStart = toMinutes(period.startTime);
+    const periodEnd = periodStart + getDurationMinutes(period.startTime, period.endTime);
+    return start < periodEnd && end > periodStart;
+  });
+}
+
+/**
+ * Index of the period to show a time range in: the first one it overlaps, or
+ * else the closest one, so events between or outside the periods are still
+ * drawn. -1 only when there are no periods.
+ */
+export function findNearestPeriodIndex(periods: Period[], start: number, end: number): number {
+  const overlapping = findPeriodIndex(periods, start, end);
+  if (overlapping !== -1) return overlapping;
+  let nearest = -1;
+  let nearestGap = Infinity;
+  periods.forEach((period, index) => {
+    const periodStart = toMinutes(period.startTime);
+    const periodEnd = periodStart + getDurationMinutes(period.startTime, period.endTime);
+    const gap = start >= periodEnd ? start - periodEnd : periodStart - end;
+    if (gap < nearestGap) {
+      nearest = index;
+      nearestGap = gap;
+    }
+  });
+  return nearest;
+}
+
+/** A row of the period grid: a period, or a blocked range falling between periods. */
+export type PeriodRow =
+  | { kind: 'period'; period: Period; index: number }
+  | { kind: 'blocked'; range: BlockedRange };
+
+/** Periods and blocked ranges interleaved by start time, for drawing the period grid. */
+export function getPeriodRows(settings: CalendarSettings): PeriodRow[] {
+  const rows: PeriodRow[] = [
+    ...settings.periods.map((period, index) => ({ kind: 'period' as const, period, index })),
+    ...settings.blockedRanges.map(range => ({ kind: 'blocked' as const, range }))
+  ];
+  const startOf = (row: PeriodRow) => toMinutes(row.kind === 'period' ? row.period.startTime : row.range.startTime);
+  return rows.sort((a, b) => startOf(a) - startOf(b));
+}
+
+/**
+ * Blocked ranges as minute intervals within a single day. A range that runs
+ * past midnight yields two intervals: its late-evening and early-morning parts.
+ */
+export function getBlockedIntervals(ranges: BlockedRange[]): { range: BlockedRange; start: number; end: number }[] {
+  return ranges.flatMap(range => {
+    const start = toMinutes(range.startTime);
+    const end = start + getDurationMinutes(range.startTime, range.endTime);
+    return end > MINUTES_PER_DAY
+      ? [{ range, start, end: MINUTES_PER_DAY }, { range, start: 0, end: end - MINUTES_PER_DAY }]
+      : [{ range, start, end }];
+  });
+}
+
+/** Blocked ranges that a time range overlaps, including its part past midnight. */
+export function findBlockedOverlaps(ranges: BlockedRange[], startTime: string, endTime: string): BlockedRange[] {
+  const start = toMinutes(startTime);
+  const end = start + getDurationMinutes(startTime, endTime);
+  const hits = getBlockedIntervals(ranges).filter(interval =>
+    [0, MINUTES_PER_DAY].some(offset => start < interval.end + offset && end > interval.start + offset)
+  );
+  return ranges.filter(range => hits.some(hit => hit.range === range));
+}
+
+/** Confirmation asked before placing an event over blocked ranges. */
+export function formatBlockedWarning(ranges: BlockedRange[]): string {
+  const names = ranges.map(range => `${range.name}(${range.startTime}-${range.endTime})`).join(', ');
+  return `${names} 시간과 겹칩니다. 그래도 배치하시겠습니까?`;
+}
+
+/** Hour rows to draw, from `startHour` to `endHour` inclusive. */
+export function getVisibleHours(settings: CalendarSettings): number[] {
+  return Array.from({ length: settings.endHour - settings.startHour + 1 }, (_, i) => settings.startHour + i);
+}
+
+/** Day indices of the columns to draw, in display order starting at `weekStartsOn`. */
+export function getVisibleDays(settings: CalendarSettings): number[] {
+  const days = Array.from({ length: 7 }, (_, i) => (settings.weekStartsOn + i) % 7);
+  return settings.hideWeekends ? days.filter(day => day < 5) : days;
+}
+
+/** First day of the displayed week containing `date`, at local midnight. */
+export function getDisplayWeekStart(date: Date, weekStartsOn: number): Date {
+  return addDays(date, -((getDayIndex(date) - weekStartsOn + 7) % 7));
+}
+
+/**
+ * The part of a time range that falls inside the visible hour rows, in
+ * minutes since midnight, or null when none of it is visible. Grids use this
+ * so events reaching outside the configured hours are cut at the edges
+ * instead of disappearing.
+ */
+export function clipToVisibleHours(
+  startMinutes: number,
+  endMinutes: number,
+  settings: CalendarSettings
+): { start: number; end: number } | null {
+  const first = settings.startHour * 60;
+  const last = (settings.endHour + 1) * 60;
+  const start = Math.max(startMinutes, first);
+  const end = Math.min(endMinutes, last);
+  return start < last && end > first && start < end ? { start, end } : null;
+}
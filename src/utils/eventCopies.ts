@@ -0,0 +1,87 @@
+import type { CalendarEvent } from '../types/calendar';
+import { getOccurrencesForDate } from './occurrences';
+import { addDays, getDayIndex, parseDateKey, toDateKey } from './time';
+
+/**
+ * Helpers for copying events to other days and weeks. They only build the new
+ * events; adding them (and checking for conflicts) is up to the caller.
+ */
+
+/** An event about to be added, before it has an id. */
+export type NewEvent = Omit<CalendarEvent, 'id'>;
+
+/** Where a copy lands. A `date` makes a one-off copy; without one the copy repeats weekly on `day`. */
+export interface CopyTarget {
+  day: number;
+  date?: string;
+  startTime?: string;
+  endTime?: string;
+}
+
+/**
+ * Copy of an event at another place. Weekly copies keep the recurrence rule;
+ * per-occurrence exceptions are dropped because they refer to the source's
+ * dates.
+ */
+export function copyEvent(event: CalendarEvent, target: CopyTarget): NewEvent {
+  const { id, exceptions, ...rest } = event;
+  return {
+    ...rest,
+    template: { ...event.template },
+    day: target.date ? getDayIndex(parseDateKey(target.date)) : target.day,
+    date: target.date,
+    recurrence: target.date ? undefined : event.recurrence,
+    startTime: target.startTime ?? event.startTime,
+    endTime: target.endTime ?? event.endTime
+  };
+}
+
+/**
+ * The copies not already on the calendar. A copy with the same template,
+ * weekday, date and times as an existing event is dropped, so pasting twice
+ * does not stack identical events.
+ */
+export function skipExistingCopies(events: CalendarEvent[], copies: NewEvent[]): NewEvent[] {
+  return copies.filter(
+    copy =>
+      !events.some(
+        event =>
+          event.templateId === copy.templateId &&
+          event.day === copy.day &&
+          event.date === copy.date &&
+          event.startTime === copy.startTime &&
+          event.endTime === copy.endTime
+      )
+  );
+}
+
+/**
+ * Copies of everything happening on `source`, placed on `target`. One-off
+ * events are copied to the target date and weekly events become weekly events
+ * on the target weekday, each keeping the times of that day's occurrence.
+ */
+export function copyDayEvents(events: CalendarEvent[], source: Date, target: Date): NewEvent[] {
+  const targetDay = getDayIndex(target);
+  return getOccurrencesForDate(events, source).map(occurrence =>
+    copyEvent(occurrence.event, {
+      day: targetDay,
+      date: occurrence.event.date ? toDateKey(target) : undefined,
+      startTime: occurrence.startTime,
+      endTime: occurrence.endTime
+    })
+  );
+}
+
+/**
+ * Copies of the one-off events in the week starting at `sourceStart`, moved
+ * to the week starting at `targetStart`. Weekly events already appear in
+ * every week and are left alone.
+ */
+export function copyWeekEvents(events: CalendarEvent[], sourceStart: Date, targetStart: Date): NewEvent[] {
+  const from = toDateKey(sourceStart);
+  const to = toDateKey(addDays(sourceStart, 6));
+  const shift = Math.round((targetStart.getTime() - sourceStart.getTime()) / 86400000);
+  return events
+    .filter((event): event is CalendarEvent & { date: string } => !!event.date && event.date >= from && event.date <= to)
+    .map(event => copyEvent(event, { day: event.day, date: toDateKey(addDays(parseDateKey(event.date), shift)) }));
+}
@@ -0,0 +1,51 @@
+import type { Attachment, CalendarEvent } from '../types/calendar';
+
+/**
+ * Opening what an event links to. An event's own links and files sit on top
+ * of its template's: both are opened, template first.
+ */
+
+/** Attachments of an event: the template's followed by the event's own. */
+export function getEventAttachments(event: CalendarEvent): Attachment[] {
+  return [...(event.template.attachments ?? []), ...(event.attachments ?? [])];
+}
+
+/**
+ * URLs opened for an event. `urls` are the occurrence's links (an exception's
+ * override or the template URLs); the event's extra URLs are added after them.
+ */
+export function getEventUrls(event: CalendarEvent, urls: string[] = event.template.urls ?? []): string[] {
+  return [...new Set([...urls, ...(event.extraUrls ?? [])].map(url => url.trim()).filter(Boolean))];
+}
+
+/** Open a stored file in a new tab, through a blob URL when its data URL can be fetched. */
+export async function openAttachment(attachment: Attachment): Promise<void> {
+  if (attachment.fileData) {
+    try {
+      const response = await fetch(attachment.fileData);
+      const blob = await response.blob();
+      window.open(URL.createObjectURL(blob), '_blank');
+    } catch {
+      window.open(attachment.fileData, '_blank');
+    }
+  } else if (attachment.file instanceof File) {
+    // The File object is only around until the page is reloaded.
+    window.open(URL.createObjectURL(attachment.file), '_blank');
+  }
+}
+
+/**
+ * Open every attachment and URL of an event. Templates saved before
+ * attachments were a list may carry a single `fileData`/`file` instead.
+ */
+export async function openEventLinks(event: CalendarEvent, urls?: string[]): Promise<void> {
+  const legacy = event.template as { fileData?: string; file?: File };
+  const attachments = getEventAttachments(event);
+  if (attachments.length === 0 && (legacy.fileData || legacy.file)) {
+    attachments.push({ fileData: legacy.fileData, file: legacy.file, fileName: '', fileType: '' });
+  }
+  for (const attachment of attachments) {
+    await openAttachment(attachment);
+  }
+  getEventUrls(event, urls).forEach(url => window.open(url, '_blank'));
+}
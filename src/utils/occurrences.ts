@@ -0,0 +1,431 @@
+import type { CalendarEvent, EventException, EventOccurrence, Recurrence } from '../types/calendar';
+import {
+  MINUTES_PER_DAY,
+  addDays,
+  fromMinutes,
+  getDayIndex,
+  getDurationMinutes,
+  getWeekStart,
+  parseDateKey,
+  toDateKey,
+  toMinutes
+} from './time';
+
+/**
+ * Anchor week for recurrence rules without a `startDate`. Any Monday works;
+ * it only fixes which weeks count as A and B for interval > 1.
+ */
+const DEFAULT_ANCHOR = '1970-01-05';
+
+const MS_PER_WEEK = 7 * 24 * 60 * 60 * 1000;
+
+/** Whole weeks between the weeks containing `from` and `to`. */
+function weeksBetween(from: Date, to: Date): number {
+  return Math.round((getWeekStart(to).getTime() - getWeekStart(from).getTime()) / MS_PER_WEEK);
+}
+
+/**
+ * Whether a weekly event with the given rule falls on `date`. The caller has
+ * already checked the weekday.
+ */
+function matchesRecurrence(day: number, rule: Recurrence, date: Date): boolean {
+  const key = toDateKey(date);
+  if (rule.startDate && key < rule.startDate) return false;
+  if (rule.endDate && key > rule.endDate) return false;
+
+  const interval = Math.max(1, rule.interval ?? 1);
+  const offset = ((rule.weekOffset ?? 0) % interval + interval) % interval;
+  const anchor = parseDateKey(rule.startDate ?? DEFAULT_ANCHOR);
+  const week = weeksBetween(anchor, date);
+  if (week < 0 || week % interval !== offset) return false;
+
+  if (rule.count !== undefined) {
+    // The first cycle week may fall before startDate (e.g. a Monday class
+    // with a Wednesday start), in which case counting starts a cycle later.
+    const firstInCycle = addDays(getWeekStart(anchor), offset * 7 + day);
+    const firstWeek = rule.startDate && toDateKey(firstInCycle) < rule.startDate ? offset + interval : offset;
+    const index = (week - firstWeek) / interval;
+    if (index >= rule.count) return false;
+  }
+  return true;
+}
+
+/**
+ * Whether an event takes place on the given calendar date. Events with a
+ * concrete `date` happen only on that day; other events repeat on their `day`
+ * index according to their recurrence rule (every week when absent).
+ */
+export function occursOnDate(event: CalendarEvent, date: Date): boolean {
+  if (event.date) {
+    return event.date === toDateKey(date);
+  }
+  const day = getDayIndex(date);
+  if (event.day !== day) return false;
+  return event.recurrence ? matchesRecurrence(day, event.recurrence, date) : true;
+}
+
+/** All events that take place on the given calendar date. */
+export function getEventsForDate(events: CalendarEvent[], date: Date): CalendarEvent[] {
+  return events.filter(event => occursOnDate(event, date));
+}
+
+/** The exception stored for the occurrence originally on `dateKey`, if any. */
+export function findException(event: CalendarEvent, dateKey: string): EventException | undefined {
+  return event.exceptions?.find(exception => exception.date === dateKey);
+}
+
+/** Exceptions of `event` with `exception` added or replacing the one for the same date. */
+export function withException(event: CalendarEvent, exception: EventException): EventException[] {
+  return [...(event.exceptions ?? []).filter(e => e.date !== exception.date), exception];
+}
+
+/** Exceptions of `event` without the one for `dateKey`. */
+export function withoutException(event: CalendarEvent, dateKey: string): EventException[] {
+  return (event.exceptions ?? []).filter(e => e.date !== dateKey);
+}
+
+function buildOccurrence(event: CalendarEvent, dateKey: string, exception?: EventException): EventOccurrence {
+  return {
+    event,
+    date: dateKey,
+    day: getDayIndex(parseDateKey(dateKey)),
+    startTime: exception?.startTime ?? event.startTime,
+    endTime: exception?.endTime ?? event.endTime,
+    exception,
+    cancelled: exception?.cancelled || undefined
+  };
+}
+
+export interface ExpandOptions {
+  /** Keep cancelled occurrences (flagged with `cancelled`) so grids can show them. */
+  includeCancelled?: boolean;
+}
+
+/**
+ * Expand events into concrete occurrences for every date from `start` to
+ * `end` (both inclusive), ordered by date and start time. Per-occurrence
+ * exceptions are applied: moved occurrences appear on their new date and
+ * cancelled ones are dropped unless `includeCancelled` is set.
+ */
+export function expandOccurrences(
+  events: CalendarEvent[],
+  start: Date,
+  end: Date,
+  { includeCancelled = false }: ExpandOptions = {}
+): EventOccurrence[] {
+  const occurrences: EventOccurrence[] = [];
+  const startKey = toDateKey(start);
+  const endKey = toDateKey(end);
+  for (let date = addDays(start, 0); toDateKey(date) <= endKey; date = addDays(date, 1)) {
+    const key = toDateKey(date);
+    for (const event of events) {
+      if (!occursOnDate(event, date)) continue;
+      const exception = event.date ? undefined : findException(event, key);
+      // Moved occurrences are emitted on their new date below.
+      if (exception?.newDate && exception.newDate !== key && !exception.cancelled) continue;
+      if (exception?.cancelled && !includeCancelled) continue;
+      occurrences.push(buildOccurrence(event, key, exception));
+    }
+  }
+  for (const event of events) {
+    if (event.date) continue;
+    for (const exception of event.exceptions ?? []) {
+      const target = exception.newDate;
+      if (!target || target === exception.date || exception.cancelled) continue;
+      if (target < startKey || target > endKey) continue;
+      if (!occursOnDate(event, parseDateKey(exception.date))) continue;
+      occurrences.push(buildOccurrence(event, target, exception));
+    }
+  }
+  return occurrences.sort((a, b) => a.date.localeCompare(b.date) || a.startTime.localeCompare(b.startTime));
+}
+
+/** Occurrences that take place on a single date. */
+export function getOccurrencesForDate(
+  events: CalendarEvent[],
+  date: Date,
+  options?: ExpandOptions
+): EventOccurrence[] {
+  return expandOccurrences(events, date, date, options);
+}
+
+/** Days since the epoch for a `YYYY-MM-DD` key, independent of DST. */
+function dayNumber(dateKey: string): number {
+  const [y, m, d] = dateKey.split('-').map(Number);
+  return Math.round(Date.UTC(y, (m || 1) - 1, d || 1) / (24 * 60 * 60 * 1000));
+}
+
+/**
+ * Minutes since the epoch day at which a range on `dateKey` starts and ends.
+ * Overnight ranges end on the following day, so intervals on neighbouring
+ * dates can be compared directly.
+ */
+function toInterval(dateKey: string, startTime: string, endTime: string): [number, number] {
+  const start = dayNumber(dateKey) * MINUTES_PER_DAY + toMinutes(startTime);
+  return [start, start + getDurationMinutes(startTime, endTime)];
+}
+
+function intervalsOverlap([startA, endA]: [number, number], [startB, endB]: [number, number]): boolean {
+  return startA < endB && startB < endA;
+}
+
+/**
+ * Occurrences that would collide with an event placed on `date` from
+ * `startTime` to `endTime`, including overnight events from the day before
+ * and early events the next day when the range runs past midnight.
+ * Cancelled occurrences never conflict, and the event being moved or resized
+ * can be left out with `ignoreEventId`.
+ */
+export function findConflicts(
+  events: CalendarEvent[],
+  date: Date,
+  startTime: string,
+  endTime: string,
+  ignoreEventId?: string
+): EventOccurrence[] {
+  const candidate = toInterval(toDateKey(date), startTime, endTime);
+  return expandOccurrences(events, addDays(date, -1), addDays(date, 1)).filter(
+    occurrence =>
+      occurrence.event.id !== ignoreEventId &&
+      intervalsOverlap(candidate, toInterval(occurrence.date, occurrence.startTime, occurrence.endTime))
+  );
+}
+
+/** Occurrences in the list that overlap another non-cancelled occurrence. */
+export function getConflictingOccurrences(occurrences: EventOccurrence[]): Set<EventOccurrence> {
+  const conflicting = new Set<EventOccurrence>();
+  const active = occurrences
+    .filter(occurrence => !occurrence.cancelled)
+    .map(occurrence => ({ occurrence, interval: toInterval(occurrence.date, occurrence.startTime, occurrence.endTime) }));
+  for (let i = 0; i < active.length; i++) {
+    for (let j = i + 1; j < active.length; j++) {
+      if (intervalsOverlap(active[i].interval, active[j].interval)) {
+        conflicting.add(active[i].occurrence);
+        conflicting.add(active[j].occurrence);
+      }
+    }
+  }
+  return conflicting;
+}
+
+/** The part of an occurrence that falls on one calendar day. */
+export interface OccurrenceSegment {
+  occurrence: EventOccurrence;
+  /** Date of this part (`YYYY-MM-DD`). */
+  date: string;
+  /** Day of week index of `date` (0 = Monday). */
+  day: number;
+  /** Minutes since midnight of `date`; `end` is 1440 when cut at midnight. */
+  start: number;
+  end: number;
+  /** This part continues an occurrence that started the day before. */
+  continued?: boolean;
+  /** The occurrence goes on past midnight into the next day. */
+  continues?: boolean;
+}
+
+/**
+ * Split an occurrence at midnight so each part can be drawn in its own day
+ * column. `endTime` can be given to draw an in-progress resize.
+ */
+export function splitAtMidnight(occurrence: EventOccurrence, endTime = occurrence.endTime): OccurrenceSegment[] {
+  const start = toMinutes(occurrence.startTime);
+  const end = start + getDurationMinutes(occurrence.startTime, endTime);
+  if (end <= MINUTES_PER_DAY) {
+    return [{ occurrence, date: occurrence.date, day: occurrence.day, start, end }];
+  }
+  const nextDate = addDays(parseDateKey(occurrence.date), 1);
+  return [
+    { occurrence, date: occurrence.date, day: occurrence.day, start, end: MINUTES_PER_DAY, continues: true },
+    {
+      occurrence,
+      date: toDateKey(nextDate),
+      day: getDayIndex(nextDate),
+      start: 0,
+      end: end - MINUTES_PER_DAY,
+      continued: true
+    }
+  ];
+}
+
+/** Date and time at which an occurrence starts. */
+export function getOccurrenceStart(occurrence: EventOccurrence): Date {
+  const date = parseDateKey(occurrence.date);
+  date.setMinutes(toMinutes(occurrence.startTime));
+  return date;
+}
+
+/**
+ * Updates that give one occurrence a new end time. Occurrences whose times
+ * were changed for that date only keep the change on their exception;
+ * otherwise the event itself is updated.
+ */
+export function resizeOccurrence(occurrence: EventOccurrence, endTime: string): Partial<CalendarEvent> {
+  if (occurrence.exception?.endTime) {
+    return {
+      exceptions: withException(occurrence.event, {
+        ...occurrence.exception,
+        startTime: occurrence.startTime,
+        endTime
+      })
+    };
+  }
+  return { endTime };
+}
+
+/** A `YYYY-MM-DD` key moved by a number of days. */
+function shiftDateKey(dateKey: string, days: number): string {
+  return toDateKey(addDays(parseDateKey(dateKey), days));
+}
+
+/**
+ * An exception of a weekly event that is moved by `minutes`, so it stays on
+ * the same occurrence. Its own times move too, and may carry the occurrence
+ * into another day than the rest of the event.
+ */
+function shiftException(exception: EventException, event: CalendarEvent, minutes: number): EventException {
+  const dayShift = Math.floor((toMinutes(event.startTime) + minutes) / MINUTES_PER_DAY);
+  const start = toMinutes(exception.startTime ?? event.startTime) + minutes;
+  const date = shiftDateKey(exception.date, dayShift);
+  const target = shiftDateKey(exception.newDate ?? exception.date, Math.floor(start / MINUTES_PER_DAY));
+  return {
+    ...exception,
+    date,
+    newDate: target !== date ? target : undefined,
+    startTime: exception.startTime && fromMinutes(start),
+    endTime: exception.endTime && fromMinutes(toMinutes(exception.endTime) + minutes)
+  };
+}
+
+/**
+ * Updates that move an event by a number of minutes, crossing into other days
+ * as needed. One-off events change date; weekly events change weekday and
+ * their exceptions move along with the occurrences they belong to.
+ */
+export function shiftEvent(event: CalendarEvent, minutes: number): Partial<CalendarEvent> {
+  const start = toMinutes(event.startTime) + minutes;
+  const dayShift = Math.floor(start / MINUTES_PER_DAY);
+  const times = { startTime: fromMinutes(start), endTime: fromMinutes(toMinutes(event.endTime) + minutes) };
+  if (event.date) {
+    return { ...times, date: shiftDateKey(event.date, dayShift) };
+  }
+  const day = (((event.day + dayShift) % 7) + 7) % 7;
+  if (!event.exceptions?.length) return { ...times, day };
+  return { ...times, day, exceptions: event.exceptions.map(exception => shiftException(exception, event, minutes)) };
+}
+
+/**
+ * Updates that move an event `days` days later (earlier when negative) to
+ * start at `startTime` and end at `endTime`. Built on `shiftEvent`, so weekly
+ * events keep their exceptions on the occurrences they belong to.
+ */
+export function rescheduleEvent(
+  event: CalendarEvent,
+  days: number,
+  startTime: string,
+  endTime: string
+): Partial<CalendarEvent> {
+  const minutes = days * MINUTES_PER_DAY + toMinutes(startTime) - toMinutes(event.startTime);
+  return { ...shiftEvent(event, minutes), endTime };
+}
+
+/** Colour an event is drawn in: its own override, or its template's colour. */
+export function getEventColor(event: CalendarEvent): string {
+  return event.color || event.template.color;
+}
+
+/** Links to open for an occurrence: its exception's links, or the template's. */
+export function getOccurrenceUrls(occurrence: EventOccurrence): string[] {
+  return occurrence.exception?.urls ?? occurrence.event.template.urls ?? [];
+}
+
+/** Short Korean label for an occurrence exception, e.g. "휴강" or "이번만 변경". */
+export function describeException(occurrence: EventOccurrence): string {
+  if (!occurrence.exception) return '';
+  if (occurrence.cancelled) return '휴강';
+  if (occurrence.exception.newDate && occurrence.exception.newDate !== occurrence.exception.date) {
+    const original = parseDateKey(occurrence.exception.date);
+    return `${original.getMonth() + 1}/${original.getDate()}에서 이동`;
+  }
+  return '이번만 변경';
+}
+
+/**
+ * Short Korean label for a recurrence rule, e.g. "격주 B · ~12/20". Returns an
+ * empty string for plain weekly events.
+ */
+export function describeRecurrence(rule: Recurrence | undefined): string {
+  if (!rule) return '';
+  const parts: string[] = [];
+  const interval = Math.max(1, rule.interval ?? 1);
+  if (interval === 2) {
+    parts.push(`격주 ${(rule.weekOffset ?? 0) % 2 === 0 ? 'A' : 'B'}`);
+  } else if (interval > 2) {
+    parts.push(`${interval}주마다`);
+  }
+  const formatKey = (key: string) => {
+    const date = parseDateKey(key);
+    return `${date.getMonth() + 1}/${date.getDate()}`;
+  };
+  if (rule.startDate || rule.endDate) {
+    parts.push(`${rule.startDate ? formatKey(rule.startDate) : ''}~${rule.endDate ? formatKey(rule.endDate) : ''}`);
+  }
+  if (rule.count !== undefined) {
+    parts.push(`${rule.count}회`);
+  }
+  return parts.join(' · ');
+}
+
+export interface SegmentLayout {
+  /** Zero-based column within the group of overlapping segments. */
+  column: number;
+  /** Number of columns the overlapping group is split into. */
+  columns: number;
+}
+
+/**
+ * Column-packing layout for a time grid. Segments on the same day that
+ * overlap (directly or through a chain of overlaps) form a group; each one is
+ * put in the leftmost column that is free at its start time and the whole
+ * group shares the width evenly, so concurrent events sit side by side.
+ */
+export function layoutSegments(segments: OccurrenceSegment[]): Map<OccurrenceSegment, SegmentLayout> {
+  const layout = new Map<OccurrenceSegment, SegmentLayout>();
+  const byDate = new Map<string, OccurrenceSegment[]>();
+  for (const segment of segments) {
+    byDate.set(segment.date, [...(byDate.get(segment.date) ?? []), segment]);
+  }
+
+  for (const daySegments of byDate.values()) {
+    const sorted = [...daySegments].sort((a, b) => a.start - b.start || b.end - a.end);
+    let group: OccurrenceSegment[] = [];
+    // End minute of the last segment placed in each column of the current group.
+    let columnEnds: number[] = [];
+    let groupEnd = -1;
+
+    const closeGroup = () => {
+      for (const segment of group) {
+        layout.set(segment, { column: layout.get(segment)!.column, columns: columnEnds.length });
+      }
+      group = [];
+      columnEnds = [];
+    };
+
+    for (const segment of sorted) {
+      const end = Math.max(segment.start + 1, segment.end);
+      if (segment.start >= groupEnd) closeGroup();
+      let column = columnEnds.findIndex(columnEnd => columnEnd <= segment.start);
+      if (column === -1) {
+        column = columnEnds.length;
+        columnEnds.push(end);
+      } else {
+        columnEnds[column] = end;
+      }
+      layout.set(segment, { column, columns: 1 });
+      group.push(segment);
+      groupEnd = group.length === 1 ? end : Math.max(groupEnd, end);
+    }
+    closeGroup();
+  }
+  return layout;
+}
@@ -0,0 +1,71 @@
+import type { CalendarData, CalendarEvent, Template } from '../types/calendar';
+
+/**
+ * Text search over templates and events. Matching is case-insensitive and
+ * looks at the template name, description, URLs and tags; events are matched
+ * through their own template copy plus any per-occurrence links.
+ */
+
+/** Matches of one calendar, in the calendar's own order. */
+export interface CalendarSearchResult {
+  calendar: CalendarData;
+  templates: Template[];
+  events: CalendarEvent[];
+}
+
+/** Lower-cased, trimmed query; empty when there is nothing to search for. */
+export function normalizeQuery(query: string): string {
+  return query.trim().toLowerCase();
+}
+
+function includesQuery(text: string | undefined, query: string): boolean {
+  return !!text && text.toLowerCase().includes(query);
+}
+
+/** Whether the template's name, description or one of its URLs or tags contains `query`. */
+export function matchesTemplate(template: Template, query: string): boolean {
+  const q = normalizeQuery(query);
+  if (!q) return false;
+  return (
+    includesQuery(template.name, q) ||
+    includesQuery(template.description, q) ||
+    (template.urls ?? []).some(url => includesQuery(url, q)) ||
+    (template.tags ?? []).some(tag => includesQuery(tag, q))
+  );
+}
+
+/**
+ * Whether the event's template copy, its own location, notes and links, or one
+ * of its per-occurrence links contains `query`.
+ */
+export function matchesEvent(event: CalendarEvent, query: string): boolean {
+  const q = normalizeQuery(query);
+  if (!q) return false;
+  return (
+    matchesTemplate(event.template, q) ||
+    includesQuery(event.location, q) ||
+    includesQuery(event.notes, q) ||
+    (event.extraUrls ?? []).some(url => includesQuery(url, q)) ||
+    (event.exceptions ?? []).some(exception => (exception.urls ?? []).some(url => includesQuery(url, q)))
+  );
+}
+
+/** IDs of the events that match `query`. */
+export function getMatchingEventIds(events: CalendarEvent[], query: string): Set<string> {
+  return new Set(events.filter(event => matchesEvent(event, query)).map(event => event.id));
+}
+
+/**
+ * Matches across every calendar. Calendars without any matching template or
+ * event are left out; an empty query gives no results.
+ */
+export function searchCalendars(calendars: CalendarData[], query: string): CalendarSearchResult[] {
+  if (!normalizeQuery(query)) return [];
+  return calendars
+    .map(calendar => ({
+      calendar,
+      templates: calendar.templates.filter(template => matchesTemplate(template, query)),
+      events: calendar.events.filter(event => matchesEvent(event, query))
+    }))
+    .filter(result => result.templates.length > 0 || result.events.length > 0);
+}
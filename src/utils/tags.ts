@@ -0,0 +1,34 @@
+import type { Template } from '../types/calendar';
+
+/**
+ * Helpers for template tags. Tags are free-form labels; they are compared
+ * exactly after trimming, and an event carries the tags of its template copy.
+ */
+
+/** Tags parsed from comma-separated input, trimmed, without blanks or duplicates. */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(',').map(tag => tag.trim()).filter(Boolean))];
+}
+
+/** Every tag used by the templates, sorted. */
+export function collectTags(templates: Template[]): string[] {
+  return [...new Set(templates.flatMap(template => template.tags ?? []))].sort((a, b) => a.localeCompare(b));
+}
+
+/** The tag a list is filtered by: `tag` while some template still has it, otherwise none. */
+export function getActiveFilterTag(templates: Template[], tag: string | null): string | null {
+  return tag && collectTags(templates).includes(tag) ? tag : null;
+}
+
+/**
+ * Whether something with `tags` is hidden by the legend. Untagged items stay
+ * visible, and an item with several tags stays visible while any of them is.
+ */
+export function isHiddenByTags(tags: string[] | undefined, hiddenTags: Set<string>): boolean {
+  return !!tags && tags.length > 0 && tags.every(tag => hiddenTags.has(tag));
+}
+
+/** Tags as hashtags for plain-text exports, e.g. "#전공 #교양". */
+export function formatTags(tags: string[] | undefined): string {
+  return (tags ?? []).map(tag => `#${tag.replace(/\s+/g, '_')}`).join(' ');
+}
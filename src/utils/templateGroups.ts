@@ -0,0 +1,80 @@
+import type { Template, TemplateGroup } from '../types/calendar';
+
+/**
+ * Layout of the template storage. Pinned templates come first, then the
+ * templates outside any folder, then each folder in order. Within a section
+ * templates keep the order of the calendar's `templates` array, so reordering
+ * is done by moving a template within that array.
+ */
+
+/** Where a template is dropped: the pinned section, or a folder (none for ungrouped). */
+export type TemplateSectionKey = { pinned: true } | { pinned: false; groupId?: string };
+
+export interface TemplateSection {
+  key: TemplateSectionKey;
+  /** Folder shown by the section, when it is one. */
+  group?: TemplateGroup;
+  templates: Template[];
+}
+
+/** The template's folder, or undefined when it has none or the folder no longer exists. */
+function getGroupId(template: Template, groups: TemplateGroup[]): string | undefined {
+  return template.groupId && groups.some(group => group.id === template.groupId) ? template.groupId : undefined;
+}
+
+/** Sections of the template storage. Every folder gets a section, even an empty one. */
+export function getTemplateSections(templates: Template[], groups: TemplateGroup[] = []): TemplateSection[] {
+  const unpinned = templates.filter(template => !template.pinned);
+  return [
+    { key: { pinned: true }, templates: templates.filter(template => template.pinned) },
+    { key: { pinned: false }, templates: unpinned.filter(template => !getGroupId(template, groups)) },
+    ...groups.map(group => ({
+      key: { pinned: false, groupId: group.id } as TemplateSectionKey,
+      group,
+      templates: unpinned.filter(template => getGroupId(template, groups) === group.id)
+    }))
+  ];
+}
+
+/** Key under which a section's collapsed state is stored. */
+export function getSectionId(key: TemplateSectionKey): string {
+  return key.pinned ? 'pinned' : key.groupId ?? 'ungrouped';
+}
+
+/**
+ * Templates the storage currently shows, in display order: those with
+ * `filterTag` (all when null) outside the collapsed sections. Number keys 1–9
+ * pick from the front of this list.
+ */
+export function getVisibleTemplateOrder(
+  templates: Template[],
+  groups: TemplateGroup[],
+  filterTag: string | null,
+  collapsedSectionIds: string[]
+): Template[] {
+  return getTemplateSections(templates, groups)
+    .filter(section => !collapsedSectionIds.includes(getSectionId(section.key)))
+    .flatMap(section => section.templates.filter(template => !filterTag || !!template.tags?.includes(filterTag)));
+}
+
+/**
+ * Templates with `templateId` moved into `target`, just before `beforeId` or
+ * at the end of the section. Pinning keeps the template's folder so it goes
+ * back there when unpinned.
+ */
+export function moveTemplate(
+  templates: Template[],
+  templateId: string,
+  target: TemplateSectionKey,
+  beforeId?: string
+): Template[] {
+  const template = templates.find(t => t.id === templateId);
+  if (!template || templateId === beforeId) return templates;
+  const moved: Template = target.pinned
+    ? { ...template, pinned: true }
+    : { ...template, pinned: undefined, groupId: target.groupId };
+  const rest = templates.filter(t => t.id !== templateId);
+  const index = beforeId ? rest.findIndex(t => t.id === beforeId) : -1;
+  if (index === -1) return [...rest, moved];
+  return [...rest.slice(0, index), moved, ...rest.slice(index)];
+}
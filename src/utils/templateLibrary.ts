@@ -0,0 +1,70 @@
+import type { CalendarData, CalendarEvent, Template } from '../types/calendar';
+import { getDurationMinutes } from './time';
+import { getEventAttachments, getEventUrls } from './eventLinks';
+import { getEventColor } from './occurrences';
+
+/**
+ * Helpers for the shared template library. Library templates are plain
+ * templates kept outside any calendar; calendars hold copies of them, which
+ * stay linked through `libraryId` unless copied without a link.
+ */
+
+/** Where a template made from an event is saved. */
+export type SaveTemplateTarget = 'calendar' | 'library';
+
+/** Template data as stored in the library: no calendar-specific fields. */
+export function toLibraryTemplate(template: Template): Omit<Template, 'id'> {
+  const { id, groupId, pinned, libraryId, ...data } = template;
+  return data;
+}
+
+/** Template data for adding a library template to a calendar, linked or as an independent copy. */
+export function fromLibraryTemplate(template: Template, link: boolean): Omit<Template, 'id'> {
+  return { ...toLibraryTemplate(template), libraryId: link ? template.id : undefined };
+}
+
+/**
+ * A calendar template updated with new library data. It keeps its own ID,
+ * folder, pin and link.
+ */
+export function applyLibraryTemplate(template: Template, data: Omit<Template, 'id'>): Template {
+  return {
+    ...template,
+    ...toLibraryTemplate({ ...data, id: template.id }),
+    id: template.id,
+    groupId: template.groupId,
+    pinned: template.pinned,
+    libraryId: template.libraryId
+  };
+}
+
+/**
+ * Whether a calendar template is linked to an entry still in the library.
+ * Deleting a library entry leaves its links in place (undo can bring them
+ * back too), so a link to a missing entry counts as no link.
+ */
+export function isLinkedToLibrary(template: Template, library: Template[]): boolean {
+  return !!template.libraryId && library.some(entry => entry.id === template.libraryId);
+}
+
+/** Calendars with at least one template linked to the library template. */
+export function getLinkedCalendars(calendars: CalendarData[], libraryId: string): CalendarData[] {
+  return calendars.filter(calendar => calendar.templates.some(template => template.libraryId === libraryId));
+}
+
+/**
+ * Template data made from a placed event: its snapshot with the event's own
+ * colour, links and files folded in, and the event's length as the duration.
+ */
+export function templateFromEvent(event: CalendarEvent, name = event.template.name): Omit<Template, 'id'> {
+  const urls = getEventUrls(event);
+  const attachments = getEventAttachments(event).map(({ fileData, fileName, fileType }) => ({ fileData, fileName, fileType }));
+  return {
+    ...toLibraryTemplate(event.template),
+    name,
+    color: getEventColor(event),
+    duration: getDurationMinutes(event.startTime, event.endTime),
+    urls: urls.length > 0 ? urls : undefined,
+    attachments: attachments.length > 0 ? attachments : undefined
+  };
+}
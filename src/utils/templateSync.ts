@@ -0,0 +1,125 @@
+import type { CalendarEvent, Template } from '../types/calendar';
+
+/**
+ * Comparing an event's template snapshot with the current template, so edits
+ * made to a template after events were placed can be pushed to them on demand,
+ * and finding events whose template has been deleted.
+ */
+
+/**
+ * Template fields copied to events when syncing. The duration is left out:
+ * placed events keep their own start and end times.
+ */
+export const SYNC_FIELDS = ['name', 'description', 'color', 'urls', 'attachments', 'tags'] as const;
+
+export type SyncField = (typeof SYNC_FIELDS)[number];
+
+/** One field that differs between an event's snapshot and its template, formatted for display. */
+export interface TemplateFieldDiff {
+  field: SyncField;
+  before: string;
+  after: string;
+}
+
+/** An event whose snapshot no longer matches its template. */
+export interface OutdatedEvent {
+  event: CalendarEvent;
+  diff: TemplateFieldDiff[];
+}
+
+/** Field value as shown in a diff; lists are joined and empty values become an empty string. */
+function formatFieldValue(template: Template, field: SyncField): string {
+  switch (field) {
+    case 'urls':
+      return (template.urls ?? []).join(', ');
+    case 'attachments':
+      return (template.attachments ?? []).map(attachment => attachment.fileName).join(', ');
+    case 'tags':
+      return (template.tags ?? []).join(', ');
+    default:
+      return template[field] ?? '';
+  }
+}
+
+/**
+ * Whether two attachment lists hold the same files, so attachments with the
+ * same name but new contents still differ. The data URLs are compared as they
+ * are rather than serialised, since they can be megabytes long.
+ */
+function sameAttachments(a: Template['attachments'] = [], b: Template['attachments'] = []): boolean {
+  return (
+    a === b ||
+    (a.length === b.length &&
+      a.every(
+        (att, i) => att.fileName === b[i].fileName && att.fileType === b[i].fileType && att.fileData === b[i].fileData
+      ))
+  );
+}
+
+function isFieldEqual(snapshot: Template, template: Template, field: SyncField): boolean {
+  if (field === 'attachments') return sameAttachments(snapshot.attachments, template.attachments);
+  return formatFieldValue(snapshot, field) === formatFieldValue(template, field);
+}
+
+/** Fields of `snapshot` that differ from `template`. */
+export function getTemplateDiff(snapshot: Template, template: Template): TemplateFieldDiff[] {
+  return SYNC_FIELDS.filter(field => !isFieldEqual(snapshot, template, field)).map(field => ({
+    field,
+    before: formatFieldValue(snapshot, field),
+    after: formatFieldValue(template, field)
+  }));
+}
+
+/** Events placed from `template` whose snapshot differs from it. */
+export function findOutdatedEvents(events: CalendarEvent[], template: Template): OutdatedEvent[] {
+  return events
+    .filter(event => event.templateId === template.id)
+    .map(event => ({ event, diff: getTemplateDiff(event.template, template) }))
+    .filter(({ diff }) => diff.length > 0);
+}
+
+/** Update that brings an event's snapshot in line with `template`, keeping the snapshot's duration. */
+export function syncEventTemplate(event: CalendarEvent, template: Template): Partial<CalendarEvent> {
+  return {
+    template: {
+      ...event.template,
+      name: template.name,
+      description: template.description,
+      color: template.color,
+      urls: template.urls,
+      attachments: template.attachments,
+      tags: template.tags
+    }
+  };
+}
+
+/**
+ * How an event's snapshot relates to the calendar's templates: 'orphaned' when
+ * its template no longer exists, 'outdated' when the template has changed since.
+ */
+export type SnapshotStatus = 'orphaned' | 'outdated';
+
+export function getSnapshotStatus(event: CalendarEvent, templates: Template[]): SnapshotStatus | undefined {
+  const template = templates.find(t => t.id === event.templateId);
+  if (!template) return 'orphaned';
+  return getTemplateDiff(event.template, template).length > 0 ? 'outdated' : undefined;
+}
+
+/** Snapshot status of every event that has one, keyed by event ID. */
+export function getSnapshotStatuses(events: CalendarEvent[], templates: Template[]): Map<string, SnapshotStatus> {
+  const statuses = new Map<string, SnapshotStatus>();
+  events.forEach(event => {
+    const status = getSnapshotStatus(event, templates);
+    if (status) statuses.set(event.id, status);
+  });
+  return statuses;
+}
+
+/** Orphaned events grouped by the template they were placed from, in order of first appearance. */
+export function groupOrphanedEvents(events: CalendarEvent[], templates: Template[]): CalendarEvent[][] {
+  const groups = new Map<string, CalendarEvent[]>();
+  events
+    .filter(event => !templates.some(t => t.id === event.templateId))
+    .forEach(event => groups.set(event.templateId, [...(groups.get(event.templateId) ?? []), event]));
+  return [...groups.values()];
+}
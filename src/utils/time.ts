@@ -0,0 +1,85 @@
+/**
+ * Date and time helpers shared by the calendar views. Dates that are stored on
+ * events use the local `YYYY-MM-DD` form so they survive JSON round-trips
+ * without timezone shifts, times use `HH:MM`, and day indices follow the app
+ * convention of 0 = Monday … 6 = Sunday.
+ *
+ * Times always stay within a day; an end time at or before its start time
+ * means the range runs past midnight into the next day.
+ */
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+/** Format a Date as a local `YYYY-MM-DD` key. */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = (date.getMonth() + 1).toString().padStart(2, '0');
+  const d = date.getDate().toString().padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/** Parse a `YYYY-MM-DD` key into a local Date at midnight. */
+export function parseDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, (m || 1) - 1, d || 1);
+}
+
+/** Day index of a date where Monday is 0 and Sunday is 6. */
+export function getDayIndex(date: Date): number {
+  return (date.getDay() + 6) % 7;
+}
+
+/** Return a new Date shifted by the given number of days. */
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+/** Monday of the week containing the given date, at local midnight. */
+export function getWeekStart(date: Date): Date {
+  return addDays(date, -getDayIndex(date));
+}
+
+/** Minutes since midnight for an `HH:MM` string. */
+export function toMinutes(time: string): number {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+}
+
+/** Format minutes since midnight as `HH:MM`, wrapping values outside one day. */
+export function fromMinutes(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const h = Math.floor(wrapped / 60);
+  const m = wrapped % 60;
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+}
+
+/** Add a number of minutes to an `HH:MM` time, wrapping past midnight. */
+export function addMinutes(time: string, minutes: number): string {
+  return fromMinutes(toMinutes(time) + minutes);
+}
+
+/** Length of a time range in minutes. Ranges ending at or before their start run overnight. */
+export function getDurationMinutes(startTime: string, endTime: string): number {
+  const diff = toMinutes(endTime) - toMinutes(startTime);
+  return diff > 0 ? diff : diff + MINUTES_PER_DAY;
+}
+
+/** Whether a time range runs past midnight into the next day. */
+export function isOvernight(startTime: string, endTime: string): boolean {
+  return toMinutes(endTime) <= toMinutes(startTime);
+}
+
+/** Korean label for a duration, e.g. "50분", "2시간" or "1시간 30분". */
+export function formatDuration(minutes: number): string {
+  const h = Math.floor(minutes / 60);
+  const m = minutes % 60;
+  if (h === 0) return `${m}분`;
+  return m === 0 ? `${h}시간` : `${h}시간 ${m}분`;
+}
+
+/** Round minutes down to the nearest multiple of `step`. */
+export function snapMinutes(minutes: number, step: number): number {
+  return Math.floor(minutes / step) * step;
+}